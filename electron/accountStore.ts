@@ -0,0 +1,141 @@
+import { safeStorage } from 'electron';
+import Store from 'electron-store';
+import { GitHubAccount, GITHUB_DOT_COM } from './githubAccount';
+
+const ACCOUNTS_KEY = 'githubAccounts';
+const ACTIVE_KEY = 'activeGitHubAccount';
+// Single token written by versions before multiple accounts were supported
+const LEGACY_TOKEN_KEY = 'githubToken';
+
+export type SavedAccount = GitHubAccount & {
+  id: string;
+  // Name shown in the account switcher, e.g. "Personal" or "Org bot"
+  label: string;
+  // Set when GitHub rejected the token; the account is kept until it signs in again or is removed
+  needsSignIn: boolean;
+};
+
+export type AccountsState = {
+  accounts: SavedAccount[];
+  activeId: string | null;
+};
+
+type StoredAccount = SavedAccount & {
+  // Token encrypted with `safeStorage`, base64 encoded
+  token: string;
+};
+
+const createAccountId = (): string => `account-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Keeps the signed-in GitHub accounts and their tokens, encrypted with the OS facility behind
+// `safeStorage` (DPAPI, Keychain, libsecret/kwallet). Without an encryption backend nothing is
+// written to disk and the accounts only live for the current session. Decrypted tokens stay inside
+// the main process.
+export function createAccountStore(store: Store) {
+  const tokens = new Map<string, string>();
+  let accounts: SavedAccount[] = [];
+  let activeId: string | null = null;
+
+  const decrypt = (encrypted: string): string | null => {
+    try {
+      return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+    } catch (e) {
+      console.error('Failed to decrypt a stored GitHub token', e);
+      return null;
+    }
+  };
+
+  const load = () => {
+    if (!safeStorage.isEncryptionAvailable()) return;
+    const stored = (store.get(ACCOUNTS_KEY) as StoredAccount[] | undefined) ?? [];
+    for (const { token, ...account } of stored) {
+      const decrypted = decrypt(token);
+      // An account whose token can no longer be read has to sign in again
+      if (decrypted === null) continue;
+      tokens.set(account.id, decrypted);
+      // Accounts saved before GHES support all belong to github.com
+      accounts.push({ ...account, server: account.server ?? GITHUB_DOT_COM, needsSignIn: account.needsSignIn ?? false });
+    }
+    const savedActive = store.get(ACTIVE_KEY) as string | undefined;
+    activeId = accounts.find(account => account.id === savedActive)?.id ?? accounts[0]?.id ?? null;
+  };
+
+  const persist = () => {
+    if (!safeStorage.isEncryptionAvailable()) {
+      console.warn('OS encryption is unavailable; GitHub accounts are kept for this session only.');
+      store.delete(ACCOUNTS_KEY);
+      store.delete(ACTIVE_KEY);
+      return;
+    }
+    store.set(ACCOUNTS_KEY, accounts.map(account => ({
+      ...account,
+      token: safeStorage.encryptString(tokens.get(account.id) ?? '').toString('base64'),
+    })));
+    if (activeId) {
+      store.set(ACTIVE_KEY, activeId);
+    } else {
+      store.delete(ACTIVE_KEY);
+    }
+  };
+
+  const state = (): AccountsState => ({ accounts: [...accounts], activeId });
+
+  load();
+
+  return {
+    state,
+    active(): { account: SavedAccount; token: string } | null {
+      const account = accounts.find(saved => saved.id === activeId);
+      const token = account && tokens.get(account.id);
+      return account && token ? { account, token } : null;
+    },
+    // Signing in again as an account that is already saved replaces its token instead of adding a duplicate
+    add(account: GitHubAccount, label: string, token: string): AccountsState {
+      const existing = accounts.find(saved =>
+        saved.server.webUrl === account.server.webUrl && saved.login.toLowerCase() === account.login.toLowerCase());
+      const id = existing?.id ?? createAccountId();
+      const saved: SavedAccount = { ...account, id, label: label.trim() || account.login, needsSignIn: false };
+      accounts = existing ? accounts.map(a => a.id === id ? saved : a) : [...accounts, saved];
+      tokens.set(id, token);
+      activeId = id;
+      persist();
+      return state();
+    },
+    // Removing the active account activates the next one, if any is left
+    remove(id: string): AccountsState {
+      accounts = accounts.filter(account => account.id !== id);
+      tokens.delete(id);
+      if (activeId === id) activeId = accounts[0]?.id ?? null;
+      persist();
+      return state();
+    },
+    activate(id: string): AccountsState {
+      if (accounts.some(account => account.id === id)) {
+        activeId = id;
+        persist();
+      }
+      return state();
+    },
+    // The token stays until a new one replaces it, so signing in again keeps the account's id and cache
+    requireSignIn(id: string): AccountsState {
+      accounts = accounts.map(account => account.id === id ? { ...account, needsSignIn: true } : account);
+      persist();
+      return state();
+    },
+    rename(id: string, label: string): AccountsState {
+      accounts = accounts.map(account => account.id === id ? { ...account, label: label.trim() || account.login } : account);
+      persist();
+      return state();
+    },
+    readLegacyToken(): string | null {
+      const encrypted = store.get(LEGACY_TOKEN_KEY) as string | undefined;
+      if (!encrypted || !safeStorage.isEncryptionAvailable()) return null;
+      return decrypt(encrypted);
+    },
+    dropLegacyToken() {
+      store.delete(LEGACY_TOKEN_KEY);
+    },
+  };
+}
+
+export type AccountStore = ReturnType<typeof createAccountStore>;
@@ -0,0 +1,214 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+// Small per-entry metadata kept in memory and in the index, so listing, expiring and measuring the age
+// of entries never has to read the payloads themselves
+export type CacheMeta = Record<string, unknown>;
+
+export type CacheRecord = {
+  data: unknown;
+  meta: CacheMeta;
+};
+
+export type CacheListing = {
+  key: string;
+  meta: CacheMeta;
+  // Bytes on disk
+  size: number;
+  // Epoch millis of the last read or write, which drives LRU eviction
+  lastAccess: number;
+};
+
+export type CacheStats = {
+  entries: number;
+  size: number;
+  limit: number;
+};
+
+type IndexEntry = Omit<CacheListing, 'key'>;
+
+const INDEX_FILE = 'index.json';
+const INDEX_FLUSH_DELAY = 2000;
+
+// Response cache on disk: one JSON file per entry, spread over 256 shard directories by the hash of its
+// key, plus an index with the metadata, size and last access of every entry. When the total size goes
+// over `limit` the least recently used entries are evicted. A missing or damaged index is rebuilt by
+// scanning the shards, and a damaged entry file is treated as a miss.
+export function createCacheStore(dir: string, limit: number) {
+  const index = new Map<string, IndexEntry>();
+  let totalSize = 0;
+  let flushTimer: NodeJS.Timeout | null = null;
+
+  const fileFor = (key: string): string => {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(dir, hash.slice(0, 2), `${hash}.json`);
+  };
+
+  const writeAtomic = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Unique per write: a revalidation and a `set` of the same key may overlap
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tmp, content, 'utf8');
+      await fs.rename(tmp, file);
+    } catch (e) {
+      await fs.rm(tmp, { force: true });
+      throw e;
+    }
+  };
+
+  const flushIndex = async () => {
+    flushTimer = null;
+    const entries = Object.fromEntries(index);
+    try {
+      await writeAtomic(path.join(dir, INDEX_FILE), JSON.stringify(entries));
+    } catch (e) {
+      console.error('Failed to write the cache index', e);
+    }
+  };
+
+  // Access times change on every read; batch them into one index write
+  const scheduleFlush = () => {
+    if (!flushTimer) flushTimer = setTimeout(flushIndex, INDEX_FLUSH_DELAY);
+  };
+
+  const rebuildIndex = async () => {
+    let shards: string[] = [];
+    try {
+      shards = (await fs.readdir(dir, { withFileTypes: true })).filter(d => d.isDirectory()).map(d => d.name);
+    } catch {
+      return;
+    }
+    for (const shard of shards) {
+      for (const name of await fs.readdir(path.join(dir, shard))) {
+        const file = path.join(dir, shard, name);
+        // Left behind by a write that was interrupted; the entry it was replacing, if any, is still there
+        if (name.endsWith('.tmp')) {
+          await fs.rm(file, { force: true });
+          continue;
+        }
+        try {
+          const content = await fs.readFile(file, 'utf8');
+          const { key, meta } = JSON.parse(content);
+          index.set(key, { meta, size: Buffer.byteLength(content), lastAccess: Date.now() });
+        } catch {
+          await fs.rm(file, { force: true });
+        }
+      }
+    }
+    scheduleFlush();
+  };
+
+  const ready = (async () => {
+    try {
+      const entries = JSON.parse(await fs.readFile(path.join(dir, INDEX_FILE), 'utf8')) as Record<string, IndexEntry>;
+      Object.entries(entries).forEach(([key, entry]) => index.set(key, entry));
+    } catch {
+      await rebuildIndex();
+    }
+    index.forEach(entry => { totalSize += entry.size; });
+  })();
+
+  const remove = async (key: string) => {
+    const entry = index.get(key);
+    if (!entry) return;
+    index.delete(key);
+    totalSize -= entry.size;
+    await fs.rm(fileFor(key), { force: true });
+  };
+
+  const evict = async () => {
+    if (totalSize <= limit) return;
+    const byAge = Array.from(index.entries()).sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    for (const [key] of byAge) {
+      if (totalSize <= limit) break;
+      await remove(key);
+    }
+  };
+
+  const keysWithPrefix = (prefix: string): string[] => Array.from(index.keys()).filter(key => key.startsWith(prefix));
+
+  return {
+    async get(key: string): Promise<CacheRecord | null> {
+      await ready;
+      const entry = index.get(key);
+      if (!entry) return null;
+      try {
+        const { data } = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        entry.lastAccess = Date.now();
+        scheduleFlush();
+        return { data, meta: entry.meta };
+      } catch (e) {
+        console.warn(`Dropping unreadable cache entry ${key}`, e);
+        await remove(key);
+        scheduleFlush();
+        return null;
+      }
+    },
+    async set(key: string, data: unknown, meta: CacheMeta) {
+      await ready;
+      const content = JSON.stringify({ key, meta, data });
+      const size = Buffer.byteLength(content);
+      // A single entry that would take most of the budget would only push everything else out
+      if (size > limit / 2) {
+        console.warn(`Not caching ${key}: ${size} bytes exceeds half of the ${limit} byte cache limit`);
+        await remove(key);
+        scheduleFlush();
+        return;
+      }
+      await writeAtomic(fileFor(key), content);
+      totalSize += size - (index.get(key)?.size ?? 0);
+      index.set(key, { meta, size, lastAccess: Date.now() });
+      await evict();
+      scheduleFlush();
+    },
+    async list(prefix: string): Promise<CacheListing[]> {
+      await ready;
+      return keysWithPrefix(prefix).map(key => ({ key, ...index.get(key)! }));
+    },
+    // Merges `patch` into the metadata of every entry under `prefix`, e.g. to mark them stale
+    async patchMeta(prefix: string, patch: CacheMeta) {
+      await ready;
+      keysWithPrefix(prefix).forEach(key => {
+        const entry = index.get(key)!;
+        entry.meta = { ...entry.meta, ...patch };
+      });
+      scheduleFlush();
+    },
+    async patchMetaOf(keys: string[], patch: CacheMeta) {
+      await ready;
+      keys.forEach(key => {
+        const entry = index.get(key);
+        if (entry) entry.meta = { ...entry.meta, ...patch };
+      });
+      scheduleFlush();
+    },
+    async deletePrefix(prefix: string) {
+      await ready;
+      for (const key of keysWithPrefix(prefix)) {
+        await remove(key);
+      }
+      scheduleFlush();
+    },
+    async deleteKeys(keys: string[]) {
+      await ready;
+      for (const key of keys) {
+        await remove(key);
+      }
+      scheduleFlush();
+    },
+    async stats(): Promise<CacheStats> {
+      await ready;
+      return { entries: index.size, size: totalSize, limit };
+    },
+    // Metadata patched in memory only reaches the entry file on the next write; the index is the
+    // source of truth for it, so it has to be written before quitting
+    async flush() {
+      if (flushTimer) clearTimeout(flushTimer);
+      await flushIndex();
+    },
+  };
+}
+
+export type CacheStore = ReturnType<typeof createCacheStore>;
@@ -0,0 +1,106 @@
+// GitHub OAuth device authorization flow:
+// https://docs.github.com/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps#device-flow
+//
+// The endpoints are resolved against `DP_GITHUB_OAUTH_BASE_URL` so the flow can be exercised against
+// a local mock (see scripts/mock-github-device-flow.mjs) instead of github.com.
+
+// Replaced at build time from the DP_GITHUB_OAUTH_CLIENT_ID environment variable (see vite.config.ts)
+declare const __GITHUB_OAUTH_CLIENT_ID__: string;
+
+export type DeviceFlowConfig = {
+  baseUrl: string;
+  clientId: string;
+  scope: string;
+};
+
+export type DeviceCode = {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  // Seconds until the codes expire
+  expiresIn: number;
+  // Minimum seconds between token polls
+  interval: number;
+};
+
+export type DeviceFlowResult =
+  | { status: 'authorized'; token: string }
+  | { status: 'expired' | 'denied' | 'cancelled' }
+  | { status: 'error'; message: string };
+
+export const getDeviceFlowConfig = (): DeviceFlowConfig => ({
+  baseUrl: (process.env.DP_GITHUB_OAUTH_BASE_URL || 'https://github.com').replace(/\/+$/, ''),
+  clientId: process.env.DP_GITHUB_OAUTH_CLIENT_ID || __GITHUB_OAUTH_CLIENT_ID__,
+  scope: 'repo:status public_repo',
+});
+
+const postForm = async (url: string, params: Record<string, string>, signal?: AbortSignal): Promise<any> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export async function requestDeviceCode(config: DeviceFlowConfig): Promise<DeviceCode> {
+  const data = await postForm(`${config.baseUrl}/login/device/code`, { client_id: config.clientId, scope: config.scope });
+  if (data.error) {
+    throw new Error(data.error_description || data.error);
+  }
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresIn: Number(data.expires_in),
+    interval: Number(data.interval) || 5,
+  };
+}
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// Polls the token endpoint until the user approves or denies the request, the codes expire, or
+// `signal` aborts. `slow_down` answers add five seconds to the interval, as GitHub requires.
+export async function pollForToken(config: DeviceFlowConfig, code: DeviceCode, signal: AbortSignal): Promise<DeviceFlowResult> {
+  let interval = code.interval;
+  const expiresAt = Date.now() + code.expiresIn * 1000;
+  try {
+    while (Date.now() < expiresAt) {
+      await sleep(interval * 1000, signal);
+      const data = await postForm(`${config.baseUrl}/login/oauth/access_token`, {
+        client_id: config.clientId,
+        device_code: code.deviceCode,
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      }, signal);
+
+      if (data.access_token) return { status: 'authorized', token: data.access_token };
+      switch (data.error) {
+        case 'authorization_pending':
+          continue;
+        case 'slow_down':
+          interval = Number(data.interval) || interval + 5;
+          continue;
+        case 'expired_token':
+          return { status: 'expired' };
+        case 'access_denied':
+          return { status: 'denied' };
+        default:
+          return { status: 'error', message: data.error_description || data.error || 'Unexpected response from the token endpoint' };
+      }
+    }
+    return { status: 'expired' };
+  } catch (e: any) {
+    if (signal.aborted) return { status: 'cancelled' };
+    return { status: 'error', message: e?.message || String(e) };
+  }
+}
@@ -0,0 +1,313 @@
+import { app, net } from 'electron';
+import Store from 'electron-store';
+import { createHash } from 'node:crypto';
+import { createReadStream, existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const HISTORY_KEY = 'downloadHistory';
+const DIRECTORY_KEY = 'downloadDirectory';
+// Finished downloads kept in the history; running and queued ones are never dropped
+const MAX_HISTORY = 100;
+const CONCURRENCY = 2;
+// "<hash>", "<hash>  name" or "<hash> *name" as written by sha256sum and most release tooling
+const CHECKSUM_LINE = /^([a-f0-9]{64})(?:\s+\*?(.+))?$/i;
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+
+// null when the release publishes no checksum; `unavailable` when its checksum file does not list the
+// download; `error` when the checksum file could not be fetched, which fails the download
+export type ChecksumResult = 'verified' | 'mismatch' | 'unavailable' | 'error' | null;
+
+export type DownloadRequest = {
+  url: string;
+  fileName: string;
+  // Checksum file of the same release, e.g. `plugin.jar.sha256` or `SHA256SUMS`
+  checksumUrl?: string;
+  // `owner/repo` and tag, shown in the history
+  repo?: string;
+  tag?: string;
+};
+
+export type DownloadEntry = {
+  id: string;
+  url: string;
+  fileName: string;
+  checksumUrl: string | null;
+  repo: string | null;
+  tag: string | null;
+  status: DownloadStatus;
+  // Where the file is saved, chosen once the download starts
+  path: string | null;
+  receivedBytes: number;
+  // 0 when the server does not send a length
+  totalBytes: number;
+  checksum: ChecksumResult;
+  // SHA-256 of the downloaded file, hex
+  sha256: string | null;
+  error: string | null;
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+const FINISHED: DownloadStatus[] = ['completed', 'failed', 'cancelled'];
+
+const isFinished = (entry: DownloadEntry): boolean => FINISHED.includes(entry.status);
+
+const createDownloadId = (): string => `download-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const hashFile = (file: string): Promise<string> => new Promise((resolve, reject) => {
+  const hash = createHash('sha256');
+  createReadStream(file)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')))
+    .on('error', reject);
+});
+
+// A checksum file either holds a single bare hash, or one line per file of the release
+export const findChecksum = (content: string, fileName: string): string | null => {
+  let bare: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.trim().match(CHECKSUM_LINE);
+    if (!match) continue;
+    if (!match[2]) {
+      bare = bare ?? match[1].toLowerCase();
+    } else if (path.basename(match[2].trim()) === fileName) {
+      return match[1].toLowerCase();
+    }
+  }
+  return bare;
+};
+
+// Downloads release assets through the session's download machinery, which handles redirects to the
+// asset CDN and can pause and resume with range requests. Downloads run a few at a time; the rest wait
+// in a queue. The history survives restarts, but a download cut off by quitting has to be started again.
+export function createDownloadManager(store: Store, onChange: (entries: DownloadEntry[]) => void) {
+  let entries: DownloadEntry[] = ((store.get(HISTORY_KEY) as DownloadEntry[] | undefined) ?? []).map(entry =>
+    isFinished(entry) ? entry : { ...entry, status: 'failed', error: 'Interrupted when the app closed.' });
+  const items = new Map<string, Electron.DownloadItem>();
+  // Download ids by URL, from `downloadURL` until the session reports the download
+  const starting = new Map<string, string>();
+  let session: Electron.Session | null = null;
+
+  const list = (): DownloadEntry[] => entries.map(entry => ({ ...entry }));
+
+  const find = (id: string): DownloadEntry | undefined => entries.find(entry => entry.id === id);
+
+  // Progress is only sent to the window; the history is written when a download changes state
+  const update = (id: string, changes: Partial<DownloadEntry>, persist = true) => {
+    entries = entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+    if (persist) {
+      let finished = 0;
+      entries = entries.filter(entry => !isFinished(entry) || ++finished <= MAX_HISTORY);
+      store.set(HISTORY_KEY, entries);
+    }
+    onChange(list());
+  };
+
+  const directory = (): string => (store.get(DIRECTORY_KEY) as string | undefined) ?? app.getPath('downloads');
+
+  // Never overwrites: "plugin.jar" becomes "plugin (1).jar" when the folder already has one
+  const uniquePath = (fileName: string): string => {
+    const dir = directory();
+    const { name, ext } = path.parse(path.basename(fileName));
+    const taken = (candidate: string) => existsSync(candidate) || entries.some(entry => !isFinished(entry) && entry.path === candidate);
+    let candidate = path.join(dir, `${name}${ext}`);
+    for (let n = 1; taken(candidate); n++) {
+      candidate = path.join(dir, `${name} (${n})${ext}`);
+    }
+    return candidate;
+  };
+
+  const startNext = () => {
+    if (!session) return;
+    const running = entries.filter(entry => entry.status === 'downloading').length + starting.size;
+    // Oldest first; the history is newest first
+    const queued = entries.filter(entry => entry.status === 'queued' && !starting.has(entry.url)).reverse();
+    queued.slice(0, Math.max(0, CONCURRENCY - running)).forEach(entry => {
+      starting.set(entry.url, entry.id);
+      session!.downloadURL(entry.url);
+    });
+  };
+
+  const fetchExpectedChecksum = async (url: string, fileName: string): Promise<string | null> => {
+    const response = await net.fetch(url);
+    if (!response.ok) throw new Error(`Checksum file request failed with ${response.status}`);
+    return findChecksum(await response.text(), fileName);
+  };
+
+  // A file that does not match its published checksum is deleted rather than left for someone to install
+  const verify = async (id: string) => {
+    const entry = find(id);
+    if (!entry?.path) return;
+    if (!entry.checksumUrl) {
+      update(id, { status: 'completed', sha256: await hashFile(entry.path).catch(() => null), finishedAt: Date.now() });
+      return;
+    }
+    update(id, { status: 'verifying' });
+    let actual: string | null = null;
+    try {
+      actual = await hashFile(entry.path);
+      const expected = await fetchExpectedChecksum(entry.checksumUrl, entry.fileName);
+      if (expected === null) {
+        update(id, { status: 'completed', checksum: 'unavailable', sha256: actual, finishedAt: Date.now() });
+      } else if (expected === actual) {
+        update(id, { status: 'completed', checksum: 'verified', sha256: actual, finishedAt: Date.now() });
+      } else {
+        await fs.rm(entry.path, { force: true });
+        update(id, {
+          status: 'failed',
+          checksum: 'mismatch',
+          sha256: actual,
+          error: `SHA-256 mismatch: expected ${expected}, got ${actual}.`,
+          finishedAt: Date.now(),
+        });
+      }
+    } catch (e) {
+      // The release advertises a checksum that could not be checked; the file is kept for a retry or a manual check
+      console.warn(`Could not verify the checksum of ${entry.fileName}`, e);
+      update(id, {
+        status: 'failed',
+        checksum: 'error',
+        sha256: actual,
+        error: `Could not verify the SHA-256 checksum: ${e instanceof Error ? e.message : String(e)}`,
+        finishedAt: Date.now(),
+      });
+    }
+  };
+
+  // Downloads not started here, such as an exported changelog, keep the default save dialog
+  const onWillDownload = (event: Electron.Event, item: Electron.DownloadItem) => {
+    const url = item.getURLChain()[0];
+    const id = starting.get(url);
+    if (id === undefined) return;
+    starting.delete(url);
+    const entry = find(id);
+    if (!entry || entry.status !== 'queued') {
+      // Cancelled while the request was on its way
+      item.cancel();
+      startNext();
+      return;
+    }
+    const target = uniquePath(entry.fileName);
+    item.setSavePath(target);
+    items.set(id, item);
+    update(id, { status: 'downloading', path: target, totalBytes: item.getTotalBytes() });
+
+    item.on('updated', (e, state) => {
+      const current = find(id);
+      if (!current) return;
+      // An interrupted download can be resumed once the connection is back
+      const status: DownloadStatus = state === 'interrupted' || item.isPaused() ? 'paused' : 'downloading';
+      update(id, {
+        status,
+        receivedBytes: item.getReceivedBytes(),
+        totalBytes: item.getTotalBytes(),
+        error: state === 'interrupted' ? 'The connection was interrupted.' : null,
+      }, status !== current.status);
+      if (status !== current.status) startNext();
+    });
+
+    item.once('done', (e, state) => {
+      items.delete(id);
+      if (state === 'completed') {
+        update(id, { receivedBytes: item.getReceivedBytes() }, false);
+        verify(id);
+      } else {
+        update(id, {
+          status: state === 'cancelled' ? 'cancelled' : 'failed',
+          error: state === 'interrupted' ? 'The download was interrupted.' : null,
+          finishedAt: Date.now(),
+        });
+      }
+      startNext();
+    });
+  };
+
+  return {
+    list,
+    get(id: string): DownloadEntry | undefined {
+      const entry = find(id);
+      return entry && { ...entry };
+    },
+    // The session exists once the app is ready; attaching it again is a no-op
+    attach(target: Electron.Session) {
+      if (session === target) return;
+      session?.off('will-download', onWillDownload);
+      session = target;
+      session.on('will-download', onWillDownload);
+      startNext();
+    },
+    // Asking for a file that is already queued or downloading returns that download
+    start(request: DownloadRequest): string {
+      const active = entries.find(entry => entry.url === request.url && !isFinished(entry));
+      if (active) return active.id;
+      const entry: DownloadEntry = {
+        id: createDownloadId(),
+        url: request.url,
+        fileName: path.basename(request.fileName),
+        checksumUrl: request.checksumUrl ?? null,
+        repo: request.repo ?? null,
+        tag: request.tag ?? null,
+        status: 'queued',
+        path: null,
+        receivedBytes: 0,
+        totalBytes: 0,
+        checksum: null,
+        sha256: null,
+        error: null,
+        createdAt: Date.now(),
+        finishedAt: null,
+      };
+      entries = [entry, ...entries];
+      update(entry.id, {});
+      startNext();
+      return entry.id;
+    },
+    pause(id: string) {
+      const item = items.get(id);
+      if (!item || item.isPaused()) return;
+      item.pause();
+      update(id, { status: 'paused' });
+      startNext();
+    },
+    // Resumes a paused download where it stopped; a failed or cancelled one is queued again from scratch
+    resume(id: string) {
+      const entry = find(id);
+      if (!entry) return;
+      const item = items.get(id);
+      if (item) {
+        if (!item.canResume()) return;
+        item.resume();
+        update(id, { status: 'downloading', error: null });
+        return;
+      }
+      if (!isFinished(entry) || entry.status === 'completed') return;
+      update(id, { status: 'queued', path: null, receivedBytes: 0, totalBytes: 0, checksum: null, sha256: null, error: null, finishedAt: null });
+      startNext();
+    },
+    cancel(id: string) {
+      const item = items.get(id);
+      if (item) {
+        // Reported through the item's `done` event
+        item.cancel();
+        return;
+      }
+      const entry = find(id);
+      if (entry?.status === 'queued') {
+        update(id, { status: 'cancelled', finishedAt: Date.now() });
+      }
+    },
+    // Forgets finished downloads; the files stay where they are
+    remove(ids: string[]) {
+      entries = entries.filter(entry => !ids.includes(entry.id) || !isFinished(entry));
+      store.set(HISTORY_KEY, entries);
+      onChange(list());
+    },
+    directory,
+    setDirectory(dir: string) {
+      store.set(DIRECTORY_KEY, dir);
+    },
+  };
+}
+
+export type DownloadManager = ReturnType<typeof createDownloadManager>;
@@ -0,0 +1,106 @@
+// Where an account's GitHub lives: github.com, or a GitHub Enterprise Server instance
+export type GitHubServer = {
+  // Base for html_url links and token settings pages
+  webUrl: string;
+  // REST API base
+  apiUrl: string;
+  graphqlUrl: string;
+  // `installed_version` reported by a GHES instance; null for github.com
+  version: string | null;
+};
+
+export const GITHUB_DOT_COM: GitHubServer = {
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+  graphqlUrl: 'https://api.github.com/graphql',
+  version: null,
+};
+
+export type GitHubAccount = {
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  server: GitHubServer;
+};
+
+export type TokenValidation =
+  // `scopes` is null when GitHub does not report them, as for fine-grained tokens
+  | { ok: true; account: GitHubAccount; scopes: string[] | null }
+  | { ok: false; reason: 'invalid' | 'forbidden' | 'rate-limited' | 'network' | 'server' | 'server-url'; message: string };
+
+// Accepts what users tend to paste for a GHES instance ("ghe.example.com", "https://ghe.example.com/",
+// "https://ghe.example.com/api/v3") and derives its endpoints: REST under /api/v3, GraphQL at /api/graphql.
+// An empty value, github.com or api.github.com mean github.com.
+export function resolveServer(serverUrl?: string): GitHubServer {
+  const trimmed = (serverUrl ?? '').trim();
+  if (!trimmed) return GITHUB_DOT_COM;
+  const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  if (url.hostname === 'github.com' || url.hostname === 'api.github.com') return GITHUB_DOT_COM;
+  const webUrl = `${url.origin}${url.pathname.replace(/\/+$/, '').replace(/\/api(\/v3)?$/, '')}`;
+  return { webUrl, apiUrl: `${webUrl}/api/v3`, graphqlUrl: `${webUrl}/api/graphql`, version: null };
+}
+
+// GHES reports its version from /meta; github.com has no version to report
+async function detectServerVersion(server: GitHubServer, token: string): Promise<string | null> {
+  if (server.apiUrl === GITHUB_DOT_COM.apiUrl) return null;
+  try {
+    const response = await fetch(`${server.apiUrl}/meta`, {
+      headers: { 'Accept': 'application/vnd.github.v3+json', 'Authorization': `token ${token}` },
+    });
+    if (!response.ok) return null;
+    const meta = await response.json();
+    return typeof meta.installed_version === 'string' ? meta.installed_version : null;
+  } catch (e) {
+    console.warn(`Failed to detect the GitHub Enterprise Server version of ${server.webUrl}`, e);
+    return null;
+  }
+}
+
+// Asks GitHub who the token belongs to and which OAuth scopes it carries (`X-OAuth-Scopes`),
+// telling apart the ways a token can be unusable.
+export async function validateToken(serverUrl: string | undefined, token: string): Promise<TokenValidation> {
+  let server: GitHubServer;
+  try {
+    server = resolveServer(serverUrl);
+  } catch (e: any) {
+    return { ok: false, reason: 'server-url', message: e?.message || String(e) };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${server.apiUrl}/user`, {
+      headers: { 'Accept': 'application/vnd.github.v3+json', 'Authorization': `token ${token}` },
+    });
+  } catch (e: any) {
+    return { ok: false, reason: 'network', message: e?.message || String(e) };
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({ message: response.statusText }));
+    const message = `${response.status} ${body.message || response.statusText}`;
+    if (response.status === 401) return { ok: false, reason: 'invalid', message };
+    if (response.status === 403 || response.status === 429) {
+      const rateLimited = response.headers.get('X-RateLimit-Remaining') === '0' || /rate limit/i.test(String(body.message));
+      return { ok: false, reason: rateLimited ? 'rate-limited' : 'forbidden', message };
+    }
+    // A host that is not a GHES instance tends to answer /api/v3/user with a 404
+    if (response.status === 404 && server !== GITHUB_DOT_COM) return { ok: false, reason: 'server-url', message };
+    return { ok: false, reason: 'server', message };
+  }
+
+  const user = await response.json().catch(() => null);
+  if (!user || typeof user.login !== 'string') {
+    return { ok: false, reason: 'server-url', message: `${server.apiUrl} did not answer like a GitHub API.` };
+  }
+  const scopesHeader = response.headers.get('X-OAuth-Scopes');
+  return {
+    ok: true,
+    account: {
+      login: user.login,
+      name: user.name ?? null,
+      avatarUrl: user.avatar_url,
+      server: { ...server, version: await detectServerVersion(server, token) },
+    },
+    scopes: scopesHeader === null ? null : scopesHeader.split(',').map(scope => scope.trim()).filter(Boolean),
+  };
+}
@@ -1,9 +1,20 @@
-import { app, BrowserWindow, shell, ipcMain } from 'electron';
+import { app, BrowserWindow, shell, ipcMain, dialog } from 'electron';
+import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { randomUUID } from 'node:crypto';
 // Fix: Import `process` from `node:process` to ensure the correct type definitions are used, resolving the error on `process.platform`.
 import process from 'node:process';
 import Store from 'electron-store';
+import { createAccountStore } from './accountStore';
+import { createCacheStore, CacheMeta } from './cacheStore';
+import { createDownloadManager, DownloadRequest } from './downloadManager';
+import { createPluginServers } from './pluginServers';
+import { describePluginJar, parsePluginDescription } from './pluginJar';
+import { createPluginUpdater, PluginUpdateRequest } from './pluginUpdater';
+import { fetchReleaseAsset } from './releaseAssets';
+import { getDeviceFlowConfig, requestDeviceCode, pollForToken, DeviceCode } from './deviceFlow';
+import { validateToken, GitHubAccount, GitHubServer, GITHUB_DOT_COM } from './githubAccount';
 
 // Get the directory name in an ES module context
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -22,6 +33,33 @@ process.env.VITE_PUBLIC = process.env.VITE_DEV_SERVER_URL
   : process.env.DIST;
 
 const store = new Store();
+const accountStore = createAccountStore(store);
+
+const DEFAULT_CACHE_SIZE_LIMIT = 256 * 1024 * 1024;
+const cacheStore = createCacheStore(
+  path.join(app.getPath('userData'), 'response-cache'),
+  store.get('cacheSizeLimit', DEFAULT_CACHE_SIZE_LIMIT) as number,
+);
+
+const pluginServers = createPluginServers(store);
+// Server of the active account, whose release assets plugin jars may be read from
+const activeServer = (): GitHubServer => accountStore.active()?.account.server ?? GITHUB_DOT_COM;
+const pluginUpdater = createPluginUpdater(store, pluginServers, activeServer);
+const downloadManager = createDownloadManager(store, entries => win?.webContents.send('downloads-changed', entries));
+
+// A token saved before multiple accounts were supported becomes the first account once GitHub tells us
+// whose it is. It stays in place if that check fails, so the next start can try again.
+const accountsReady = (async () => {
+  const legacyToken = accountStore.readLegacyToken();
+  if (!legacyToken) return;
+  const validation = await validateToken(undefined, legacyToken);
+  if (validation.ok) {
+    accountStore.add(validation.account, validation.account.login, legacyToken);
+    accountStore.dropLegacyToken();
+  } else if (validation.reason === 'invalid') {
+    accountStore.dropLegacyToken();
+  }
+})().catch(e => console.error('Failed to migrate the stored GitHub token', e));
 
 // Check hardware acceleration setting
 const hardwareAccelerationEnabled = store.get('hardwareAcceleration', true) as boolean;
@@ -33,6 +71,37 @@ let win: BrowserWindow | null;
 // Use ['ENV_NAME'] avoid vite:define plugin - Vite@2.x
 const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL'];
 
+const isApiRequest = (server: GitHubServer, url: string): boolean => url.startsWith(`${server.apiUrl}/`) || url === server.graphqlUrl;
+
+// URL filter patterns ignore ports, so one pattern per protocol and host covers an instance
+const hostPattern = (url: string): string => {
+  const { protocol, hostname } = new URL(url);
+  return `${protocol}//${hostname}/*`;
+};
+
+// Attach the active account's token to requests for its API here, so the renderer never holds the raw
+// value. The filter covers the hosts of every saved account and is rebuilt whenever accounts change.
+function updateAuthHeaderInjection() {
+  if (!win) return;
+  const servers = [GITHUB_DOT_COM, ...accountStore.state().accounts.map(account => account.server)];
+  const urls = Array.from(new Set(servers.map(server => hostPattern(server.apiUrl))));
+  win.webContents.session.webRequest.onBeforeSendHeaders({ urls }, (details, callback) => {
+    const active = accountStore.active();
+    if (active && isApiRequest(active.account.server, details.url)) {
+      details.requestHeaders['Authorization'] = `token ${active.token}`;
+    }
+    callback({ requestHeaders: details.requestHeaders });
+  });
+}
+
+// html_url links of a GHES instance may be plain http on an internal network, and so may the device-flow
+// verification page when DP_GITHUB_OAUTH_BASE_URL points at a local mock
+const isOpenableLink = (url: string): boolean => {
+  if (url.startsWith('https://')) return true;
+  if (url.startsWith(`${getDeviceFlowConfig().baseUrl}/`)) return true;
+  return accountStore.state().accounts.some(account => url.startsWith(`${account.server.webUrl}/`));
+};
+
 function createWindow() {
   win = new BrowserWindow({
     width: 1200,
@@ -50,12 +119,15 @@ function createWindow() {
 
   // Open external links in the default browser instead of a new Electron window
   win.webContents.setWindowOpenHandler(({ url }) => {
-    if (url.startsWith('https://')) {
+    if (isOpenableLink(url)) {
       shell.openExternal(url);
     }
     return { action: 'deny' };
   });
 
+  updateAuthHeaderInjection();
+  downloadManager.attach(win.webContents.session);
+
   // Send a message to the renderer process when the window is ready
   win.webContents.on('did-finish-load', () => {
     win?.webContents.send('main-process-message', (new Date).toLocaleString());
@@ -76,6 +148,17 @@ app.on('window-all-closed', () => {
   }
 });
 
+// Expiry flags only live in the cache index until it is written, so hold the quit until it is
+let cacheFlushed = false;
+app.on('before-quit', (event) => {
+  if (cacheFlushed) return;
+  event.preventDefault();
+  cacheStore.flush().finally(() => {
+    cacheFlushed = true;
+    app.quit();
+  });
+});
+
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
     createWindow();
@@ -88,4 +171,215 @@ ipcMain.handle('set-hardware-acceleration', async (event, enabled: boolean) => {
   // Note: Hardware acceleration change requires app restart
 });
 
+// Device flow: the device code stays in the main process, and so does the access token until the
+// user confirms the account it belongs to
+let deviceFlow: { code: DeviceCode; controller: AbortController } | null = null;
+let deviceFlowToken: string | null = null;
+// The account a token was last validated as, with the token, until the user confirms it. Only this is
+// ever saved, so a token is stored for the server and login GitHub vouched for, whatever the renderer says.
+let pendingLogin: { id: string; account: GitHubAccount; token: string } | null = null;
+
+ipcMain.handle('github-accounts-list', async () => {
+  await accountsReady;
+  return accountStore.state();
+});
+
+// Saves the account of a successful `github-token-validate`, identified by its `validationId`
+ipcMain.handle('github-accounts-add', async (event, validationId: string, label: string) => {
+  if (!pendingLogin || pendingLogin.id !== validationId) throw new Error('No validated token to save.');
+  const { account, token } = pendingLogin;
+  pendingLogin = null;
+  const state = accountStore.add(account, label, token);
+  updateAuthHeaderInjection();
+  return state;
+});
+
+ipcMain.handle('github-accounts-remove', async (event, id: string) => {
+  const state = accountStore.remove(id);
+  updateAuthHeaderInjection();
+  return state;
+});
+
+ipcMain.handle('github-accounts-activate', async (event, id: string) => {
+  return accountStore.activate(id);
+});
+
+ipcMain.handle('github-accounts-require-sign-in', async (event, id: string) => {
+  return accountStore.requireSignIn(id);
+});
+
+ipcMain.handle('github-accounts-rename', async (event, id: string, label: string) => {
+  return accountStore.rename(id, label);
+});
+
+// Validates a candidate token for github.com or the GHES instance at `serverUrl`, or the one from the
+// device flow (always github.com) when none is given
+ipcMain.handle('github-token-validate', async (event, token?: string, serverUrl?: string) => {
+  const candidate = token ?? deviceFlowToken;
+  if (!candidate) return { ok: false, reason: 'invalid', message: 'No token to validate.' };
+  const result = await validateToken(token ? serverUrl : undefined, candidate);
+  if (!result.ok) return result;
+  if (!token) deviceFlowToken = null;
+  pendingLogin = { id: randomUUID(), account: result.account, token: candidate };
+  return { ...result, validationId: pendingLogin.id };
+});
+
+ipcMain.handle('device-flow-available', async () => {
+  return getDeviceFlowConfig().clientId !== '';
+});
+
+ipcMain.handle('device-flow-start', async () => {
+  deviceFlow?.controller.abort();
+  const code = await requestDeviceCode(getDeviceFlowConfig());
+  deviceFlow = { code, controller: new AbortController() };
+  return { userCode: code.userCode, verificationUri: code.verificationUri, expiresIn: code.expiresIn };
+});
+
+ipcMain.handle('device-flow-poll', async () => {
+  if (!deviceFlow) return { status: 'error', message: 'No sign-in in progress.' };
+  const flow = deviceFlow;
+  const result = await pollForToken(getDeviceFlowConfig(), flow.code, flow.controller.signal);
+  if (deviceFlow === flow) deviceFlow = null;
+  if (result.status === 'authorized') {
+    deviceFlowToken = result.token;
+    return { status: 'authorized' };
+  }
+  return result;
+});
+
+ipcMain.handle('device-flow-cancel', async () => {
+  deviceFlow?.controller.abort();
+  deviceFlow = null;
+  deviceFlowToken = null;
+  pendingLogin = null;
+});
+
+// Response cache shared by the GitHub and bStats services
+ipcMain.handle('cache-get', async (event, key: string) => {
+  return cacheStore.get(key);
+});
+
+ipcMain.handle('cache-set', async (event, key: string, data: unknown, meta: CacheMeta) => {
+  await cacheStore.set(key, data, meta);
+});
+
+ipcMain.handle('cache-list', async (event, prefix: string) => {
+  return cacheStore.list(prefix);
+});
+
+ipcMain.handle('cache-patch-meta', async (event, prefix: string, patch: CacheMeta) => {
+  await cacheStore.patchMeta(prefix, patch);
+});
+
+ipcMain.handle('cache-patch-keys', async (event, keys: string[], patch: CacheMeta) => {
+  await cacheStore.patchMetaOf(keys, patch);
+});
+
+ipcMain.handle('cache-delete-prefix', async (event, prefix: string) => {
+  await cacheStore.deletePrefix(prefix);
+});
+
+ipcMain.handle('cache-delete-keys', async (event, keys: string[]) => {
+  await cacheStore.deleteKeys(keys);
+});
+
+ipcMain.handle('cache-stats', async () => {
+  return cacheStore.stats();
+});
+
+// Release asset downloads
+ipcMain.handle('downloads-list', async () => {
+  return downloadManager.list();
+});
+
+ipcMain.handle('downloads-start', async (event, request: DownloadRequest) => {
+  return downloadManager.start(request);
+});
+
+ipcMain.handle('downloads-pause', async (event, id: string) => {
+  downloadManager.pause(id);
+});
+
+ipcMain.handle('downloads-resume', async (event, id: string) => {
+  downloadManager.resume(id);
+});
+
+ipcMain.handle('downloads-cancel', async (event, id: string) => {
+  downloadManager.cancel(id);
+});
+
+ipcMain.handle('downloads-remove', async (event, ids: string[]) => {
+  downloadManager.remove(ids);
+});
+
+// Resolves to false when the file has been moved or deleted since
+ipcMain.handle('downloads-reveal', async (event, id: string) => {
+  const file = downloadManager.get(id)?.path;
+  if (!file || !fs.existsSync(file)) return false;
+  shell.showItemInFolder(file);
+  return true;
+});
+
+ipcMain.handle('downloads-get-directory', async () => {
+  return downloadManager.directory();
+});
+
+ipcMain.handle('downloads-open-directory', async () => {
+  const error = await shell.openPath(downloadManager.directory());
+  if (error) throw new Error(error);
+});
+
+// Resolves to the folder in use afterwards, which is unchanged when the dialog is dismissed
+ipcMain.handle('downloads-choose-directory', async () => {
+  const options: Electron.OpenDialogOptions = { defaultPath: downloadManager.directory(), properties: ['openDirectory', 'createDirectory'] };
+  const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+  if (!result.canceled && result.filePaths[0]) {
+    downloadManager.setDirectory(result.filePaths[0]);
+  }
+  return downloadManager.directory();
+});
+
+// Plugin folders of local servers
+ipcMain.handle('plugin-servers-list', async () => {
+  return pluginServers.list();
+});
+
+// Resolves to the unchanged list when the dialog is dismissed
+ipcMain.handle('plugin-servers-add', async () => {
+  const options: Electron.OpenDialogOptions = { properties: ['openDirectory'] };
+  const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+  if (result.canceled || !result.filePaths[0]) return pluginServers.list();
+  return pluginServers.add(result.filePaths[0]);
+});
+
+ipcMain.handle('plugin-servers-remove', async (event, id: string) => {
+  return pluginServers.remove(id);
+});
+
+ipcMain.handle('plugin-servers-scan', async (event, id: string) => {
+  return pluginServers.scan(id);
+});
+
+ipcMain.handle('plugin-updates-list', async (event, serverId: string) => {
+  return pluginUpdater.history(serverId);
+});
+
+ipcMain.handle('plugin-updates-apply', async (event, serverId: string, request: PluginUpdateRequest) => {
+  return pluginUpdater.update(serverId, request);
+});
+
+ipcMain.handle('plugin-updates-rollback', async (event, serverId: string, updateId: string) => {
+  return pluginUpdater.rollback(serverId, updateId);
+});
+
+// Plugin descriptors of repositories, for the dependency graph
+ipcMain.handle('plugin-descriptor-parse', async (event, text: string) => {
+  return parsePluginDescription(text);
+});
+
+// Reads the descriptor of a release jar without saving the jar anywhere
+ipcMain.handle('plugin-descriptor-from-jar', async (event, url: string) => {
+  return describePluginJar(await fetchReleaseAsset(url, activeServer()));
+});
+
 app.whenReady().then(createWindow);
@@ -0,0 +1,161 @@
+import { promises as fs } from 'node:fs';
+import { inflateRawSync } from 'node:zlib';
+
+export type PluginDescription = {
+  name: string;
+  version: string | null;
+  depend: string[];
+  softdepend: string[];
+  website: string | null;
+  // Oldest server API the plugin is written against, e.g. "1.20"
+  apiVersion: string | null;
+  // Oldest DPP-Core the plugin states it needs (`dpp-core-version`); plugin.yml has no standard way to say so
+  coreVersion: string | null;
+};
+
+// Bukkit/Spigot plugins describe themselves in plugin.yml; Paper-only plugins may ship just paper-plugin.yml
+const DESCRIPTOR_FILES = ['plugin.yml', 'paper-plugin.yml'];
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes followed by a comment of at most 64 KiB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Descriptors are a few KiB; anything bigger, packed or unpacked, is refused before it is inflated
+const MAX_ENTRY_SIZE = 1 << 20;
+
+// Reads the named entries of a zip archive (a jar is one), without extracting anything else. Zip64
+// archives are not supported; plugin jars never get near the 4 GiB where they are needed.
+function readZipEntries(zip: Buffer, names: string[]): Map<string, Buffer> {
+  const found = new Map<string, Buffer>();
+  let end = -1;
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - MAX_END_RECORD_SEARCH); offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive.');
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < count && found.size < names.length; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) throw new Error('Damaged zip central directory.');
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const uncompressedSize = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!names.includes(name)) continue;
+    if (compressedSize > MAX_ENTRY_SIZE || uncompressedSize > MAX_ENTRY_SIZE) throw new Error(`Zip entry ${name} is too large.`);
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error(`Damaged zip entry ${name}.`);
+    // The local header repeats the name, but its extra field may differ from the central one
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method === STORED) {
+      found.set(name, data);
+    } else if (method === DEFLATED) {
+      // The declared size cannot be trusted, so inflating stops at the cap as well
+      found.set(name, inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE }));
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}.`);
+    }
+  }
+  return found;
+}
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (/^(['"]).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  return trimmed;
+};
+
+// Comments start at a `#` preceded by whitespace, outside of quotes
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+// Just enough YAML for the top-level keys of plugin.yml: scalars, flow lists (`[a, b]`) and block
+// lists (`- a`). Nested maps such as `commands:` are skipped.
+function parsePluginYaml(text: string): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = stripComment(raw).replace(/\s+$/, '');
+    if (!line.trim()) continue;
+    const indented = /^\s/.test(line);
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (result[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    if (indented) continue;
+    listKey = null;
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    if (value === '') {
+      // Either a block list or a nested map follows; only list items are collected
+      result[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      result[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      result[key] = unquote(value);
+    }
+  }
+  return result;
+}
+
+const asString = (value: string | string[] | undefined): string | null => typeof value === 'string' && value !== '' ? value : null;
+
+const asList = (value: string | string[] | undefined): string[] => {
+  if (Array.isArray(value)) return value;
+  return value ? [value] : [];
+};
+
+export function parsePluginDescription(text: string): PluginDescription {
+  const yaml = parsePluginYaml(text);
+  const name = asString(yaml.name);
+  if (!name) throw new Error('The plugin descriptor has no name.');
+  return {
+    name,
+    version: asString(yaml.version),
+    depend: asList(yaml.depend),
+    softdepend: asList(yaml.softdepend),
+    website: asString(yaml.website),
+    apiVersion: asString(yaml['api-version']),
+    coreVersion: asString(yaml['dpp-core-version']),
+  };
+}
+
+// Null when the jar has no plugin descriptor, e.g. a library dropped into the folder
+export function describePluginJar(jar: Buffer): PluginDescription | null {
+  const entries = readZipEntries(jar, DESCRIPTOR_FILES);
+  const descriptor = DESCRIPTOR_FILES.map(name => entries.get(name)).find(Boolean);
+  return descriptor ? parsePluginDescription(descriptor.toString('utf8')) : null;
+}
+
+export async function readPluginDescription(file: string): Promise<PluginDescription | null> {
+  return describePluginJar(await fs.readFile(file));
+}
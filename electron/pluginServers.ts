@@ -0,0 +1,87 @@
+import Store from 'electron-store';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { readPluginDescription, PluginDescription } from './pluginJar';
+
+const SERVERS_KEY = 'pluginServers';
+
+export type PluginServer = {
+  id: string;
+  // Name of the server folder, shown in the servers tab
+  label: string;
+  // The server's `plugins/` folder
+  directory: string;
+};
+
+export type InstalledPlugin = {
+  // Jar file name inside the plugins folder
+  file: string;
+  // null when the jar could not be read or has no plugin descriptor
+  description: PluginDescription | null;
+  error: string | null;
+};
+
+export type PluginScan = {
+  serverId: string;
+  plugins: InstalledPlugin[];
+  scannedAt: number;
+};
+
+const createServerId = (): string => `server-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Reads the descriptor of every jar at the top of the folder; subfolders hold plugin data, not plugins
+export async function readInstalledPlugins(directory: string): Promise<InstalledPlugin[]> {
+  const files = (await fs.readdir(directory, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && entry.name.toLowerCase().endsWith('.jar'))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+  const plugins: InstalledPlugin[] = [];
+  for (const file of files) {
+    try {
+      plugins.push({ file, description: await readPluginDescription(path.join(directory, file)), error: null });
+    } catch (e) {
+      plugins.push({ file, description: null, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return plugins;
+}
+
+// `plugins` folders of local Minecraft servers. The list lives in the main process, which is also the
+// only one reading the folders, so the renderer can scan registered servers but not arbitrary paths.
+export function createPluginServers(store: Store) {
+  let servers = (store.get(SERVERS_KEY) as PluginServer[] | undefined) ?? [];
+
+  const persist = () => store.set(SERVERS_KEY, servers);
+
+  const list = (): PluginServer[] => [...servers];
+
+  return {
+    list,
+    // Registering the same folder twice returns the list unchanged
+    add(directory: string): PluginServer[] {
+      const resolved = path.resolve(directory);
+      if (servers.some(server => server.directory === resolved)) return list();
+      // "plugins" itself says nothing; the server folder above it usually does
+      const base = path.basename(resolved);
+      const label = base.toLowerCase() === 'plugins' ? path.basename(path.dirname(resolved)) : base;
+      servers = [...servers, { id: createServerId(), label: label || resolved, directory: resolved }];
+      persist();
+      return list();
+    },
+    remove(id: string): PluginServer[] {
+      servers = servers.filter(server => server.id !== id);
+      persist();
+      return list();
+    },
+    get(id: string): PluginServer | undefined {
+      return servers.find(server => server.id === id);
+    },
+    async scan(id: string): Promise<PluginScan> {
+      const server = servers.find(candidate => candidate.id === id);
+      if (!server) throw new Error('Unknown server.');
+      return { serverId: id, plugins: await readInstalledPlugins(server.directory), scannedAt: Date.now() };
+    },
+  };
+}
+
+export type PluginServers = ReturnType<typeof createPluginServers>;
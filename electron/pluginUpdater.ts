@@ -0,0 +1,201 @@
+import Store from 'electron-store';
+import { createHash } from 'node:crypto';
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { findChecksum } from './downloadManager';
+import { describePluginJar, readPluginDescription, PluginDescription } from './pluginJar';
+import { readInstalledPlugins, PluginServers } from './pluginServers';
+import { fetchReleaseAsset } from './releaseAssets';
+import type { GitHubServer } from './githubAccount';
+
+const HISTORY_KEY = 'pluginUpdateHistory';
+// Per server; older records are dropped, their backups stay on disk
+const MAX_HISTORY = 100;
+// Next to the server's plugins folder, one folder per update named by its time and id
+const BACKUP_FOLDER = 'plugin-backups';
+
+export type PluginUpdateRequest = {
+  // Installed jar to replace, a file name inside the plugins folder
+  file: string;
+  // Release asset to install
+  url: string;
+  fileName: string;
+  checksumUrl?: string;
+  repo: string;
+  tag: string;
+};
+
+export type PluginBackup = {
+  // Jar name inside the plugins folder
+  file: string;
+  path: string;
+};
+
+export type PluginUpdateRecord = {
+  id: string;
+  plugin: string;
+  repo: string;
+  tag: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  // Jar names before and after; a release may name its jar after the version
+  oldFile: string;
+  newFile: string;
+  // Copies of every jar the update replaced or removed, `oldFile` included; what a rollback restores
+  backups: PluginBackup[];
+  // As for downloads: null when the release publishes no checksum, `unavailable` when its checksum
+  // file does not list the jar. A checksum file that cannot be fetched fails the update.
+  checksum: 'verified' | 'unavailable' | null;
+  updatedAt: number;
+  rolledBackAt: number | null;
+};
+
+const createUpdateId = (): string => `update-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// File names only: requests must not reach outside the plugins folder
+const plainFileName = (name: string): string => {
+  if (!name || path.basename(name) !== name || name === '.' || name === '..') throw new Error(`Invalid file name: ${name}`);
+  return name;
+};
+
+// 2026-10-19T14-03-22, safe as a folder name on every platform
+const timestamp = (date: Date): string => date.toISOString().slice(0, 19).replace(/:/g, '-');
+
+// Replaces plugin jars in registered server folders. The new jar is checked in memory, written next to
+// the old one under a name the server does not load and renamed into place, so the folder never holds
+// a partial jar. The replaced jar is copied to a timestamped backup folder first, which is what a rollback
+// restores. A server should be stopped while its plugins are swapped.
+export function createPluginUpdater(store: Store, servers: PluginServers, activeServer: () => GitHubServer) {
+  let history = (store.get(HISTORY_KEY) as Record<string, PluginUpdateRecord[]> | undefined) ?? {};
+
+  const recordsOf = (serverId: string): PluginUpdateRecord[] => [...(history[serverId] ?? [])];
+
+  const save = (serverId: string, records: PluginUpdateRecord[]) => {
+    history = { ...history, [serverId]: records.slice(0, MAX_HISTORY) };
+    store.set(HISTORY_KEY, history);
+  };
+
+  const directoryOf = (serverId: string): string => {
+    const server = servers.get(serverId);
+    if (!server) throw new Error('Unknown server.');
+    return server.directory;
+  };
+
+  // Writes `data` as `file` in one rename; the temporary name has no .jar extension, so a running
+  // server would not pick it up
+  const writeInPlace = async (directory: string, file: string, data: Buffer) => {
+    const tmp = path.join(directory, `.${file}.${process.pid}.${Date.now()}.tmp`);
+    await fs.writeFile(tmp, data);
+    try {
+      await fs.rename(tmp, path.join(directory, file));
+    } catch (e) {
+      await fs.rm(tmp, { force: true });
+      throw e;
+    }
+  };
+
+  // Jars of the plugin in the folder, the ones `removeOtherCopies` would delete among them
+  const copiesOf = async (directory: string, plugin: string): Promise<string[]> => {
+    return (await readInstalledPlugins(directory)).filter(installed => installed.description?.name === plugin).map(installed => installed.file);
+  };
+
+  // Other jars of the same plugin would make the server refuse to load it
+  const removeOtherCopies = async (directory: string, plugin: string, keep: string[]) => {
+    for (const file of await copiesOf(directory, plugin)) {
+      if (!keep.includes(file)) await fs.rm(path.join(directory, file), { force: true });
+    }
+  };
+
+  return {
+    history: recordsOf,
+    async update(serverId: string, request: PluginUpdateRequest): Promise<PluginUpdateRecord[]> {
+      const directory = directoryOf(serverId);
+      const oldFile = plainFileName(request.file);
+      const newFile = plainFileName(request.fileName);
+      const installed = await readPluginDescription(path.join(directory, oldFile));
+      if (!installed) throw new Error(`${oldFile} has no plugin descriptor.`);
+
+      const [data, checksumText] = await Promise.all([
+        fetchReleaseAsset(request.url, activeServer()),
+        request.checksumUrl
+          ? fetchReleaseAsset(request.checksumUrl, activeServer()).then(buffer => buffer.toString('utf8'), e => {
+            throw new Error(`Could not fetch the checksum file of ${request.fileName}: ${e instanceof Error ? e.message : String(e)}`);
+          })
+          : Promise.resolve(null),
+      ]);
+      let checksum: PluginUpdateRecord['checksum'] = null;
+      const expected = checksumText !== null ? findChecksum(checksumText, request.fileName) : null;
+      if (checksumText !== null && !expected) {
+        checksum = 'unavailable';
+      } else if (expected) {
+        const actual = createHash('sha256').update(data).digest('hex');
+        if (actual !== expected) throw new Error(`SHA-256 mismatch for ${request.fileName}: expected ${expected}, got ${actual}.`);
+        checksum = 'verified';
+      }
+
+      // Check the download is the same plugin before anything in the folder changes
+      let incoming: PluginDescription | null = null;
+      try {
+        incoming = describePluginJar(data);
+      } catch {
+        // Reported below like a jar without a descriptor
+      }
+      if (!incoming) throw new Error(`${request.fileName} is not a plugin jar.`);
+      if (incoming.name !== installed.name) throw new Error(`${request.fileName} contains ${incoming.name}, not ${installed.name}.`);
+      if (newFile !== oldFile && existsSync(path.join(directory, newFile))) {
+        const occupant = await readPluginDescription(path.join(directory, newFile)).catch(() => null);
+        if (occupant?.name !== installed.name) throw new Error(`${newFile} already exists and belongs to another plugin.`);
+      }
+
+      const id = createUpdateId();
+      const now = new Date();
+      // The id keeps two updates within the same second apart
+      const backupDir = path.join(path.dirname(directory), BACKUP_FOLDER, `${timestamp(now)}-${id}`);
+      // Everything the update overwrites or deletes: the old jar, a same-plugin jar already named like the
+      // new one, and any other copies of the plugin
+      const replaced = Array.from(new Set([oldFile, ...(existsSync(path.join(directory, newFile)) ? [newFile] : []), ...await copiesOf(directory, installed.name)]));
+      await fs.mkdir(backupDir, { recursive: true });
+      const backups: PluginBackup[] = [];
+      for (const file of replaced) {
+        const backup = path.join(backupDir, file);
+        await fs.copyFile(path.join(directory, file), backup);
+        backups.push({ file, path: backup });
+      }
+
+      await writeInPlace(directory, newFile, data);
+      await removeOtherCopies(directory, installed.name, [newFile]);
+
+      save(serverId, [{
+        id,
+        plugin: installed.name,
+        repo: request.repo,
+        tag: request.tag,
+        fromVersion: installed.version,
+        toVersion: incoming.version,
+        oldFile,
+        newFile,
+        backups,
+        checksum,
+        updatedAt: now.getTime(),
+        rolledBackAt: null,
+      }, ...recordsOf(serverId)]);
+      return recordsOf(serverId);
+    },
+    // Restores the jars an update replaced or removed, whatever version of the plugin is installed now
+    async rollback(serverId: string, updateId: string): Promise<PluginUpdateRecord[]> {
+      const directory = directoryOf(serverId);
+      const record = recordsOf(serverId).find(candidate => candidate.id === updateId);
+      if (!record) throw new Error('Unknown update.');
+      const { backups } = record;
+      const missing = backups.find(backup => !existsSync(backup.path));
+      if (missing) throw new Error(`The backup ${missing.path} no longer exists.`);
+      const files = backups.map(backup => plainFileName(backup.file));
+      for (const backup of backups) {
+        await writeInPlace(directory, backup.file, await fs.readFile(backup.path));
+      }
+      await removeOtherCopies(directory, record.plugin, files);
+      save(serverId, recordsOf(serverId).map(candidate => candidate.id === updateId ? { ...candidate, rolledBackAt: Date.now() } : candidate));
+      return recordsOf(serverId);
+    },
+  };
+}
@@ -1,4 +1,7 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { GitHubAccount } from './githubAccount';
+import type { DownloadEntry, DownloadRequest } from './downloadManager';
+import type { PluginUpdateRequest } from './pluginUpdater';
 
 function domReady(condition: DocumentReadyState[] = ['complete', 'interactive']) {
   return new Promise(resolve => {
@@ -84,4 +87,49 @@ window.onload = removeLoading;
 
 contextBridge.exposeInMainWorld('electronAPI', {
   setHardwareAcceleration: (enabled: boolean) => ipcRenderer.invoke('set-hardware-acceleration', enabled),
+  // Tokens can be handed to the main process but are never read back into the renderer
+  listGitHubAccounts: () => ipcRenderer.invoke('github-accounts-list'),
+  addGitHubAccount: (validationId: string, label: string) => ipcRenderer.invoke('github-accounts-add', validationId, label),
+  removeGitHubAccount: (id: string) => ipcRenderer.invoke('github-accounts-remove', id),
+  activateGitHubAccount: (id: string) => ipcRenderer.invoke('github-accounts-activate', id),
+  requireGitHubSignIn: (id: string) => ipcRenderer.invoke('github-accounts-require-sign-in', id),
+  renameGitHubAccount: (id: string, label: string) => ipcRenderer.invoke('github-accounts-rename', id, label),
+  validateGitHubToken: (token?: string, serverUrl?: string) => ipcRenderer.invoke('github-token-validate', token, serverUrl),
+  isDeviceFlowAvailable: () => ipcRenderer.invoke('device-flow-available'),
+  startDeviceFlow: () => ipcRenderer.invoke('device-flow-start'),
+  pollDeviceFlow: () => ipcRenderer.invoke('device-flow-poll'),
+  cancelDeviceFlow: () => ipcRenderer.invoke('device-flow-cancel'),
+  cacheGet: (key: string) => ipcRenderer.invoke('cache-get', key),
+  cacheSet: (key: string, data: unknown, meta: Record<string, unknown>) => ipcRenderer.invoke('cache-set', key, data, meta),
+  cacheList: (prefix: string) => ipcRenderer.invoke('cache-list', prefix),
+  cachePatchMeta: (prefix: string, patch: Record<string, unknown>) => ipcRenderer.invoke('cache-patch-meta', prefix, patch),
+  cachePatchKeys: (keys: string[], patch: Record<string, unknown>) => ipcRenderer.invoke('cache-patch-keys', keys, patch),
+  cacheDeletePrefix: (prefix: string) => ipcRenderer.invoke('cache-delete-prefix', prefix),
+  cacheDeleteKeys: (keys: string[]) => ipcRenderer.invoke('cache-delete-keys', keys),
+  cacheStats: () => ipcRenderer.invoke('cache-stats'),
+  listDownloads: () => ipcRenderer.invoke('downloads-list'),
+  startDownload: (request: DownloadRequest) => ipcRenderer.invoke('downloads-start', request),
+  pauseDownload: (id: string) => ipcRenderer.invoke('downloads-pause', id),
+  resumeDownload: (id: string) => ipcRenderer.invoke('downloads-resume', id),
+  cancelDownload: (id: string) => ipcRenderer.invoke('downloads-cancel', id),
+  removeDownloads: (ids: string[]) => ipcRenderer.invoke('downloads-remove', ids),
+  revealDownload: (id: string) => ipcRenderer.invoke('downloads-reveal', id),
+  getDownloadDirectory: () => ipcRenderer.invoke('downloads-get-directory'),
+  openDownloadDirectory: () => ipcRenderer.invoke('downloads-open-directory'),
+  chooseDownloadDirectory: () => ipcRenderer.invoke('downloads-choose-directory'),
+  // Returns a function that stops listening
+  onDownloadsChanged: (listener: (entries: DownloadEntry[]) => void) => {
+    const handler = (event: Electron.IpcRendererEvent, entries: DownloadEntry[]) => listener(entries);
+    ipcRenderer.on('downloads-changed', handler);
+    return () => { ipcRenderer.removeListener('downloads-changed', handler); };
+  },
+  listPluginServers: () => ipcRenderer.invoke('plugin-servers-list'),
+  addPluginServer: () => ipcRenderer.invoke('plugin-servers-add'),
+  removePluginServer: (id: string) => ipcRenderer.invoke('plugin-servers-remove', id),
+  scanPluginServer: (id: string) => ipcRenderer.invoke('plugin-servers-scan', id),
+  listPluginUpdates: (serverId: string) => ipcRenderer.invoke('plugin-updates-list', serverId),
+  updatePlugin: (serverId: string, request: PluginUpdateRequest) => ipcRenderer.invoke('plugin-updates-apply', serverId, request),
+  rollbackPluginUpdate: (serverId: string, updateId: string) => ipcRenderer.invoke('plugin-updates-rollback', serverId, updateId),
+  parsePluginDescriptor: (text: string) => ipcRenderer.invoke('plugin-descriptor-parse', text),
+  describePluginJar: (url: string) => ipcRenderer.invoke('plugin-descriptor-from-jar', url),
 });
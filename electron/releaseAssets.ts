@@ -0,0 +1,37 @@
+import { net } from 'electron';
+import type { GitHubServer } from './githubAccount';
+
+// Release assets are held in memory while they are checked; plugin jars are far smaller than this
+const MAX_ASSET_SIZE = 64 * 1024 * 1024;
+
+// Release downloads of `server`, e.g. https://github.com/owner/repo/releases/download/v1.0/plugin.jar
+export const isReleaseAssetUrl = (url: string, server: GitHubServer): boolean => {
+  if (!url.startsWith(`${server.webUrl}/`)) return false;
+  return /^\/[^/]+\/[^/]+\/releases\/download\//.test(url.slice(server.webUrl.length));
+};
+
+// Downloads a release asset of `server` into memory. URLs come from the renderer, so anything that is not
+// a release download of that server is refused, and so is a body over the size cap.
+export async function fetchReleaseAsset(url: string, server: GitHubServer): Promise<Buffer> {
+  if (!isReleaseAssetUrl(url, server)) throw new Error(`${url} is not a release asset of the active server.`);
+  const response = await net.fetch(url);
+  if (!response.ok) throw new Error(`Download of ${url} failed with ${response.status}.`);
+  if (Number(response.headers.get('content-length')) > MAX_ASSET_SIZE) {
+    throw new Error(`${url} is too large to read.`);
+  }
+  // A missing or wrong length must not let a response grow past the limit either
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_ASSET_SIZE) {
+      await reader.cancel();
+      throw new Error(`${url} is too large to read.`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
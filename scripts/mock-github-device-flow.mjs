@@ -0,0 +1,78 @@
+// Local stand-in for GitHub's OAuth device flow endpoints, for trying "Sign in with GitHub"
+// without registering an OAuth app:
+//
+//   node scripts/mock-github-device-flow.mjs
+//   DP_GITHUB_OAUTH_BASE_URL=http://localhost:4010 DP_GITHUB_OAUTH_CLIENT_ID=mock npm run dev
+//
+// The sign-in screen links to http://localhost:4010/login/device; approve or deny the pending code there. Set
+// MOCK_ACCESS_TOKEN to a real token to continue into the dashboard after approval.
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_PORT || 4010);
+const ACCESS_TOKEN = process.env.MOCK_ACCESS_TOKEN || 'gho_mock_device_flow_token';
+const INTERVAL = 1;
+
+// device_code -> { userCode, state: 'pending' | 'approved' | 'denied', expiresAt, lastPoll }
+const codes = new Map();
+
+const readForm = (req) => new Promise((resolve) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(Object.fromEntries(new URLSearchParams(body))));
+});
+
+const json = (res, status, data) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'POST' && url.pathname === '/login/device/code') {
+    const form = await readForm(req);
+    if (!form.client_id) return json(res, 200, { error: 'unauthorized_client' });
+    const deviceCode = Math.random().toString(36).slice(2);
+    const userCode = `${Math.random().toString(36).slice(2, 6)}-${Math.random().toString(36).slice(2, 6)}`.toUpperCase();
+    codes.set(deviceCode, { userCode, state: 'pending', expiresAt: Date.now() + 900 * 1000, lastPoll: 0 });
+    return json(res, 200, {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: `http://localhost:${PORT}/login/device`,
+      expires_in: 900,
+      interval: INTERVAL,
+    });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/login/oauth/access_token') {
+    const form = await readForm(req);
+    const entry = codes.get(form.device_code);
+    if (!entry) return json(res, 200, { error: 'incorrect_device_code' });
+    if (Date.now() > entry.expiresAt) return json(res, 200, { error: 'expired_token' });
+    const tooFast = Date.now() - entry.lastPoll < INTERVAL * 1000 - 100;
+    entry.lastPoll = Date.now();
+    if (tooFast) return json(res, 200, { error: 'slow_down', interval: INTERVAL + 5 });
+    if (entry.state === 'denied') return json(res, 200, { error: 'access_denied' });
+    if (entry.state === 'pending') return json(res, 200, { error: 'authorization_pending' });
+    codes.delete(form.device_code);
+    return json(res, 200, { access_token: ACCESS_TOKEN, token_type: 'bearer', scope: 'public_repo,repo:status' });
+  }
+
+  if (url.pathname === '/login/device') {
+    const code = url.searchParams.get('code');
+    const action = url.searchParams.get('action');
+    for (const entry of codes.values()) {
+      if (entry.userCode === code && (action === 'approve' || action === 'deny')) {
+        entry.state = action === 'approve' ? 'approved' : 'denied';
+      }
+    }
+    const rows = [...codes.values()].map(entry =>
+      `<li>${entry.userCode} (${entry.state}) <a href="?code=${entry.userCode}&action=approve">approve</a> <a href="?code=${entry.userCode}&action=deny">deny</a></li>`);
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(`<h1>Mock device authorization</h1><ul>${rows.join('') || '<li>No pending codes</li>'}</ul>`);
+  }
+
+  json(res, 404, { message: 'Not Found' });
+});
+
+server.listen(PORT, () => console.log(`Mock GitHub device flow listening on http://localhost:${PORT}`));
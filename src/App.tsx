@@ -1,61 +1,192 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { GitHubRepo } from './types';
-import { fetchRepositories, clearCache } from './services/githubService';
+import { AccountsState, GitHubRepo, RepoSummary } from './types';
+import { fetchRepoSummaries, fetchRateLimit, selectAccount, invalidateCache, GitHubApiError, RateLimitError, GITHUB_CACHE_UPDATED_EVENT } from './services/githubService';
+import { getRepoSources, fetchSourceRepositories, getSummaryOwners, getSourcesFetchedAt, compareRepos, RepoSource, REPO_SOURCES_CHANGED_EVENT } from './services/sourcesService';
+import { migrateLegacyToken, getAccounts, activateAccount, removeAccount, requireSignIn, ACCOUNTS_CHANGED_EVENT } from './services/authService';
+import { OfflineError } from './services/connectivityService';
+import { useCacheRevision } from './hooks/useCacheRevision';
+import { useConnectivity } from './hooks/useConnectivity';
+import { useDownloads } from './hooks/useDownloads';
+import { isDownloadActive } from './services/downloadService';
 import ProjectCard from './components/ProjectCard';
 import ProjectDetail from './components/ProjectDetail';
 import StatsTab from './components/StatsTab';
+import DownloadsTab from './components/DownloadsTab';
+import ServersTab from './components/ServersTab';
+import DependencyGraph from './components/DependencyGraph';
+import CompatibilityMatrix from './components/CompatibilityMatrix';
+import { isCompatible, isValidMcVersion, knownMcVersions, normalizeMcVersion } from './services/compatibilityService';
+import { useCompatibility } from './hooks/useCompatibility';
 import LoadingSpinner from './components/LoadingSpinner';
+import DataAge from './components/DataAge';
+import RateLimitBadge from './components/RateLimitBadge';
+import AccountSwitcher from './components/AccountSwitcher';
 import Login from './components/Login';
 import Settings from './components/Settings';
-import { LogoutIcon, SettingsIcon } from './components/Icons';
-
-const ORG_NAME = 'DP-Plugins';
-const EXCLUDED_REPO = 'DPP-Releases';
+import DownloadsPanel from './components/DownloadsPanel';
+import { DownloadIcon, LogoutIcon, SettingsIcon } from './components/Icons';
 
 const App: React.FC = () => {
-    const { t } = useTranslation();
-    const [token, setToken] = useState<string | null>(() => localStorage.getItem('github-token'));
+    const { t, i18n } = useTranslation();
+    // null while the main process is asked for the saved accounts
+    const [accounts, setAccounts] = useState<AccountsState | null>(null);
+    // Showing the sign-in screen to add an account while another one stays signed in
+    const [addingAccount, setAddingAccount] = useState(false);
+    const activeAccountId = accounts?.activeId ?? null;
+    const activeAccount = accounts?.accounts.find(account => account.id === activeAccountId) ?? null;
+    // An account whose token was rejected gets the sign-in screen until it signs in again
+    const authenticated = accounts === null ? null : activeAccount !== null && !activeAccount.needsSignIn;
+    const [sources, setSources] = useState<RepoSource[]>(getRepoSources);
+    // Sources that failed while the rest loaded, shown as a warning above the grid
+    const [failedSources, setFailedSources] = useState<string[]>([]);
     const [repos, setRepos] = useState<GitHubRepo[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
+    const [loadingMore, setLoadingMore] = useState<boolean>(false);
+    const [reposFetchedAt, setReposFetchedAt] = useState<number | null>(null);
+    // Card data batched through GraphQL; cards fetch over REST themselves for repos missing here
+    const [summaries, setSummaries] = useState<Record<string, RepoSummary>>({});
+    const [summariesLoading, setSummariesLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [selectedRepo, setSelectedRepo] = useState<GitHubRepo | null>(null);
     const [searchQuery, setSearchQuery] = useState<string>('');
+    // Minecraft version the grid is narrowed to; applied once it reads as a version
+    const [mcVersion, setMcVersion] = useState<string>('');
+    // Compatibility is read from the first time the filter is focused, so its suggestions are ready
+    const [mcFilterUsed, setMcFilterUsed] = useState(false);
     const [viewMode, setViewMode] = useState<'grid-1' | 'grid-2' | 'grid-3'>(() => (localStorage.getItem('viewMode') as 'grid-1' | 'grid-2' | 'grid-3') || 'grid-3');
-    const [activeTab, setActiveTab] = useState<'main' | 'stats'>(() => (localStorage.getItem('activeTab') as 'main' | 'stats') || 'main');
+    const [activeTab, setActiveTab] = useState<'main' | 'stats' | 'downloads' | 'servers' | 'dependencies' | 'compatibility'>(() => (localStorage.getItem('activeTab') as 'main' | 'stats' | 'downloads' | 'servers' | 'dependencies' | 'compatibility') || 'main');
     const [currentPage, setCurrentPage] = useState(1);
     const [showSettings, setShowSettings] = useState(false);
+    const [showDownloads, setShowDownloads] = useState(false);
+    const activeDownloads = useDownloads().filter(isDownloadActive).length;
+    const mcFilter = isValidMcVersion(mcVersion) ? normalizeMcVersion(mcVersion.trim()) : null;
+    const { compatibilities } = useCompatibility(repos, (mcFilterUsed || mcFilter !== null) && !loadingMore);
     const itemsPerPage = 9;
+    // Incremented on every fetch so pages streamed in by a superseded fetch are ignored
+    const fetchIdRef = useRef(0);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+    const connectivity = useConnectivity();
+    const wasOfflineRef = useRef(connectivity.offline);
+
+    // The cache namespace has to follow the active account before anything fetches with it
+    const applyAccounts = useCallback((state: AccountsState) => {
+        selectAccount(state.accounts.find(account => account.id === state.activeId) ?? null);
+        setAccounts(state);
+    }, []);
+
+    useEffect(() => {
+        migrateLegacyToken()
+            .catch(err => console.error('Failed to migrate the GitHub token to encrypted storage', err))
+            .then(getAccounts)
+            .then(applyAccounts)
+            .catch(err => {
+                console.error('Failed to read the GitHub accounts', err);
+                applyAccounts({ accounts: [], activeId: null });
+            });
+
+        const onAccountsChanged = (e: Event) => applyAccounts((e as CustomEvent<AccountsState>).detail);
+        window.addEventListener(ACCOUNTS_CHANGED_EVENT, onAccountsChanged);
+        return () => window.removeEventListener(ACCOUNTS_CHANGED_EVENT, onAccountsChanged);
+    }, [applyAccounts]);
 
+    // Signs out of the active account only; the next saved account, if any, takes over
     const handleLogout = useCallback(() => {
-        localStorage.removeItem('github-token');
-        setToken(null);
+        if (!activeAccountId) return;
         setRepos([]);
-        clearCache();
-    }, []);
+        removeAccount(activeAccountId).catch(err => console.error('Failed to remove the GitHub account', err));
+    }, [activeAccountId]);
+
+    // The active account's token was rejected; it is kept so signing in again restores it as it was
+    const handleSignInExpired = useCallback(() => {
+        if (!activeAccountId) return;
+        setRepos([]);
+        requireSignIn(activeAccountId).catch(err => console.error('Failed to mark the GitHub account for sign-in', err));
+    }, [activeAccountId]);
+
+    const handleSwitchAccount = (id: string) => {
+        setError(null);
+        activateAccount(id).catch(err => console.error('Failed to switch the GitHub account', err));
+    };
 
-    const fetchData = useCallback(async () => {
-        if (!token) {
-            setLoading(false);
+    const loadSummaries = useCallback(async (fetchId: number, silent: boolean) => {
+        setSummariesLoading(true);
+        const collected: Record<string, RepoSummary> = {};
+        await Promise.all(getSummaryOwners(sources).map(owner =>
+            fetchRepoSummaries(owner, (page) => {
+                if (fetchId !== fetchIdRef.current) return;
+                if (silent) {
+                    Object.assign(collected, page);
+                    return;
+                }
+                setSummaries(prev => ({ ...prev, ...page }));
+            }).catch(err => {
+                // Cards of this owner fall back to per-repo REST requests
+                console.warn(`GraphQL repo summaries unavailable for ${owner}, falling back to REST`, err);
+            })
+        ));
+        if (fetchId === fetchIdRef.current) {
+            if (silent) setSummaries(collected);
+            setSummariesLoading(false);
+        }
+    }, [sources]);
+
+    // A silent fetch swaps in the new list once complete, without the spinner or resetting the view;
+    // it is used to pick up data refreshed by a background revalidation.
+    const fetchData = useCallback(async (silent = false) => {
+        if (!authenticated) {
+            setLoading(authenticated === null);
             return;
         }
 
+        const fetchId = ++fetchIdRef.current;
         try {
-            setLoading(true);
-            setError(null);
-            setSelectedRepo(null);
+            if (!silent) {
+                setLoading(true);
+                setLoadingMore(true);
+                setError(null);
+                setSelectedRepo(null);
+                setRepos([]);
+                setSummaries({});
+            }
+
+            loadSummaries(fetchId, silent);
 
-            const allRepos = await fetchRepositories(ORG_NAME);
-            const filteredRepos = allRepos.filter(repo => !repo.archived && repo.name !== EXCLUDED_REPO);
-            setRepos(filteredRepos);
+            // Render cards as soon as the first page arrives; later pages are appended as they stream in
+            const collected: GitHubRepo[] = [];
+            const failures = await fetchSourceRepositories(sources, (accepted) => {
+                if (fetchId !== fetchIdRef.current) return;
+                if (silent) {
+                    collected.push(...accepted);
+                    return;
+                }
+                setRepos(prev => [...prev, ...accepted]);
+                setLoading(false);
+            });
+            if (fetchId === fetchIdRef.current) {
+                if (silent) setRepos(collected);
+                setFailedSources(failures.map(f => f.source.name));
+                failures.forEach(f => console.warn(`Failed to fetch repositories for source ${f.source.name}`, f.error));
+                setReposFetchedAt(await getSourcesFetchedAt(sources));
+            }
 
         } catch (err) {
-            if (err instanceof Error) {
-                if (err.message.includes('API rate limit exceeded')) {
-                    setError('GitHub API rate limit exceeded. Authenticated requests have a higher limit. Please check your token or try again later.');
-                } else if (err.message.includes('401')) {
+            if (silent) {
+                // The list on screen is still valid; the next regular refresh will surface persistent failures
+                console.warn('Failed to reload repositories after revalidation', err);
+                return;
+            }
+            if (err instanceof OfflineError) {
+                // Nothing was cached for these sources before the connection dropped
+                setError(i18n.t('offline.noSnapshot'));
+            } else if (err instanceof RateLimitError) {
+                setError(err.resetAt
+                    ? `${i18n.t('error.rateLimit')} ${i18n.t('rateLimit.resetsAt', { time: new Date(err.resetAt).toLocaleTimeString() })}`
+                    : i18n.t('error.rateLimit'));
+            } else if (err instanceof Error) {
+                if (err instanceof GitHubApiError && err.status === 401) {
                      setError('Authentication failed. Your GitHub token may be invalid or expired.');
-                     handleLogout();
+                     handleSignInExpired();
                 } else {
                     setError(`Failed to fetch data: ${err.message}`);
                 }
@@ -64,21 +195,41 @@ const App: React.FC = () => {
             }
             console.error(err);
         } finally {
-            setLoading(false);
+            if (fetchId === fetchIdRef.current) {
+                setLoading(false);
+                setLoadingMore(false);
+            }
         }
-    }, [token, handleLogout]);
+    }, [authenticated, activeAccountId, sources, handleSignInExpired, loadSummaries, i18n]);
+
+    // Settings edits the source list; reloading it re-creates fetchData, which triggers a refresh
+    useEffect(() => {
+        const onSourcesChanged = () => setSources(getRepoSources());
+        window.addEventListener(REPO_SOURCES_CHANGED_EVENT, onSourcesChanged);
+        return () => window.removeEventListener(REPO_SOURCES_CHANGED_EVENT, onSourcesChanged);
+    }, []);
+
+    // Populate the quota badge right away; later API responses keep it current
+    useEffect(() => {
+        if (!activeAccountId) return;
+        fetchRateLimit().catch(err => console.warn('Failed to fetch rate limit status', err));
+    }, [activeAccountId]);
+
+    useEffect(() => {
+        if (cacheRevision > 0) fetchData(true);
+    }, [cacheRevision, fetchData]);
     
     // Data refresh is handled by handleRefresh effect (called once on startup and every 3 hours)
 
-    const handleLoginSuccess = (newToken: string) => {
+    // Login has already saved the account and made it active, which reloads the data under its cache namespace
+    const handleLoginSuccess = () => {
         setError(null);
-        localStorage.setItem('github-token', newToken);
-        setToken(newToken);
-        clearCache(); // Clear any old cache from a previous session before fetching
+        setAddingAccount(false);
     };
     
-    const handleRefresh = useCallback(() => {
-        clearCache();
+    const handleRefresh = useCallback(async () => {
+        // Revalidate rather than wipe: unchanged data comes back as a free 304
+        await invalidateCache().catch(err => console.warn('Failed to mark the GitHub cache for revalidation', err));
         fetchData();
     }, [fetchData]);
 
@@ -89,6 +240,12 @@ const App: React.FC = () => {
         return () => clearInterval(intervalId);
     }, [handleRefresh]);
 
+    // Resync everything that was served from the snapshot once the connection is back
+    useEffect(() => {
+        if (wasOfflineRef.current && !connectivity.offline) handleRefresh();
+        wasOfflineRef.current = connectivity.offline;
+    }, [connectivity.offline, handleRefresh]);
+
     const handleSetViewMode = (mode: 'grid-1' | 'grid-2' | 'grid-3') => {
         setViewMode(mode);
         localStorage.setItem('viewMode', mode);
@@ -100,6 +257,11 @@ const App: React.FC = () => {
         setCurrentPage(1);
     };
 
+    const handleMcVersionChange = (version: string) => {
+        setMcVersion(version);
+        setCurrentPage(1);
+    };
+
     const handleSelectRepo = (repo: GitHubRepo) => {
         setSelectedRepo(repo);
         window.scrollTo(0, 0);
@@ -109,8 +271,22 @@ const App: React.FC = () => {
         setSelectedRepo(null);
     };
 
-    if (!token) {
-        return <Login onLoginSuccess={handleLoginSuccess} error={error} />;
+    if (authenticated === null) {
+        return (
+            <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+                <LoadingSpinner />
+            </div>
+        );
+    }
+
+    if (!authenticated || addingAccount) {
+        // An account that has to sign in again can be left for another saved one that is still signed in
+        const fallback = accounts?.accounts.find(account => account.id !== activeAccountId && !account.needsSignIn);
+        const onCancel = authenticated ? () => setAddingAccount(false) : fallback ? () => handleSwitchAccount(fallback.id) : undefined;
+        const signInError = activeAccount?.needsSignIn && !addingAccount
+            ? t('accounts.signInAgain', { account: activeAccount.label, host: new URL(activeAccount.server.webUrl).host })
+            : null;
+        return <Login onLoginSuccess={handleLoginSuccess} onCancel={onCancel} error={error ?? signInError} />;
     }
     
     return (
@@ -126,8 +302,12 @@ const App: React.FC = () => {
                 </header>
 
                 <div className="flex justify-center mb-4 space-x-2">
-                    <button onClick={() => { setActiveTab('main'); localStorage.setItem('activeTab', 'main'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'main' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>Main</button>
-                    <button onClick={() => { setActiveTab('stats'); localStorage.setItem('activeTab', 'stats'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'stats' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>Statistics</button>
+                    <button onClick={() => { setActiveTab('main'); localStorage.setItem('activeTab', 'main'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'main' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.main')}</button>
+                    <button onClick={() => { setActiveTab('stats'); localStorage.setItem('activeTab', 'stats'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'stats' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.stats')}</button>
+                    <button onClick={() => { setActiveTab('downloads'); localStorage.setItem('activeTab', 'downloads'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'downloads' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.downloads')}</button>
+                    <button onClick={() => { setActiveTab('servers'); localStorage.setItem('activeTab', 'servers'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'servers' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.servers')}</button>
+                    <button onClick={() => { setActiveTab('dependencies'); localStorage.setItem('activeTab', 'dependencies'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'dependencies' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.dependencies')}</button>
+                    <button onClick={() => { setActiveTab('compatibility'); localStorage.setItem('activeTab', 'compatibility'); }} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${activeTab === 'compatibility' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('app.tabs.compatibility')}</button>
                 </div>
 
                 {activeTab === 'main' && (
@@ -140,7 +320,24 @@ const App: React.FC = () => {
                                 onChange={(e) => handleSearchChange(e.target.value)}
                                 className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 w-full max-w-md"
                             />
+                            <input
+                                type="text"
+                                list="mc-versions"
+                                placeholder={t('compatibility.filterPlaceholder')}
+                                value={mcVersion}
+                                onFocus={() => setMcFilterUsed(true)}
+                                onChange={(e) => handleMcVersionChange(e.target.value)}
+                                className="ml-2 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 w-56"
+                            />
+                            <datalist id="mc-versions">
+                                {knownMcVersions(compatibilities ?? []).map(version => <option key={version} value={version} />)}
+                            </datalist>
                         </div>
+                        {mcFilter && (
+                            <p className="text-center text-sm text-gray-400 -mt-4 mb-4">
+                                {compatibilities ? t('compatibility.filterActive', { version: mcFilter }) : t('compatibility.filterLoading')}
+                            </p>
+                        )}
 
                         <div className="flex justify-center mb-4 space-x-2">
                             <button onClick={() => handleSetViewMode('grid-1')} className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${viewMode === 'grid-1' ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{t('viewMode.1Column')}</button>
@@ -151,6 +348,15 @@ const App: React.FC = () => {
                 )}
 
                 <div className="flex justify-center md:justify-end items-center mb-6 gap-4">
+                    <RateLimitBadge />
+                    <DataAge fetchedAt={reposFetchedAt} />
+                    {accounts && <AccountSwitcher accounts={accounts} onSwitch={handleSwitchAccount} onAddAccount={() => setAddingAccount(true)} />}
+                    <button onClick={() => setShowDownloads(true)} className="relative flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium" aria-label={t('downloadManager.title')} title={t('downloadManager.title')}>
+                        <DownloadIcon className="w-4 h-4" />
+                        {activeDownloads > 0 && (
+                            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-cyan-500 text-white text-xs flex items-center justify-center">{activeDownloads}</span>
+                        )}
+                    </button>
                     <button onClick={() => setShowSettings(true)} className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium">
                         <SettingsIcon className="w-4 h-4" />
                         {t('settings.title')}
@@ -161,6 +367,12 @@ const App: React.FC = () => {
                     </button>
                 </div>
 
+                {connectivity.offline && (
+                    <div className="bg-gray-800 border border-gray-600 text-gray-300 px-4 py-3 rounded-lg text-center mb-6" role="status">
+                        {t('offline.banner', { time: new Date(connectivity.offlineSince ?? Date.now()).toLocaleString() })}
+                    </div>
+                )}
+
                 <main>
                     {loading && (
                         <div className="flex flex-col items-center justify-center h-64">
@@ -168,6 +380,11 @@ const App: React.FC = () => {
                             <p className="mt-4 text-lg text-gray-300">{t('loading.fetching')}</p>
                         </div>
                     )}
+                    {!loading && failedSources.length > 0 && (
+                        <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg text-center mb-6" role="status">
+                            {t('sources.failed', { sources: failedSources.join(', ') })}
+                        </div>
+                    )}
                     {error && (
                         <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center" role="alert">
                             <strong className="font-bold">Error: </strong>
@@ -177,21 +394,29 @@ const App: React.FC = () => {
                     {!loading && !error && (
                         activeTab === 'stats' ? (
                             <StatsTab repos={repos} />
+                        ) : activeTab === 'downloads' ? (
+                            <DownloadsTab repos={repos} />
+                        ) : activeTab === 'servers' ? (
+                            <ServersTab repos={repos} />
+                        ) : activeTab === 'dependencies' ? (
+                            <DependencyGraph repos={repos} />
+                        ) : activeTab === 'compatibility' ? (
+                            <CompatibilityMatrix repos={repos} loading={loadingMore} />
                         ) : (
                             selectedRepo ? (
-                                <ProjectDetail repo={selectedRepo} onBack={handleBackToList} />
+                                <ProjectDetail repo={selectedRepo} hasReadme={summaries[selectedRepo.full_name]?.hasReadme} onBack={handleBackToList} />
                             ) : (
                                 <div className={`grid ${viewMode === 'grid-1' ? 'grid-cols-1' : viewMode === 'grid-2' ? 'grid-cols-2' : 'grid-cols-3'} gap-8`}>
                                     {(() => {
                                         const filteredRepos = repos.filter(repo => 
                                             repo.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
                                             (repo.description && repo.description.toLowerCase().includes(searchQuery.toLowerCase()))
-                                        );
-                                        const sortedFilteredRepos = [...filteredRepos].sort((a, b) => {
-                                            if (a.name === 'DPP-Core') return -1;
-                                            if (b.name === 'DPP-Core') return 1;
-                                            return a.name.localeCompare(b.name);
+                                        ).filter(repo => {
+                                            if (!mcFilter || !compatibilities) return true;
+                                            const compatibility = compatibilities.find(candidate => candidate.repo.full_name === repo.full_name);
+                                            return compatibility ? isCompatible(compatibility, mcFilter) : false;
                                         });
+                                        const sortedFilteredRepos = [...filteredRepos].sort(compareRepos(sources));
                                         const totalPages = Math.ceil(sortedFilteredRepos.length / itemsPerPage);
                                         const displayedRepos = sortedFilteredRepos.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
                                         return (
@@ -200,9 +425,14 @@ const App: React.FC = () => {
                                                     <ProjectCard 
                                                         key={repo.id} 
                                                         repo={repo}
+                                                        summary={summaries[repo.full_name]}
+                                                        awaitSummary={summariesLoading}
                                                         onSelect={handleSelectRepo} 
                                                     />
                                                 ))}
+                                                {loadingMore && (
+                                                    <p className="col-span-full text-center text-sm text-gray-400">{t('loading.more')}</p>
+                                                )}
                                                 {totalPages > 1 && (
                                                     <div className="col-span-full flex justify-center mt-8 space-x-2">
                                                         <button
@@ -242,7 +472,14 @@ const App: React.FC = () => {
                         )
                     )}
                 </main>
-                {showSettings && <Settings onClose={() => setShowSettings(false)} />}
+                {showSettings && accounts && (
+                    <Settings
+                        onClose={() => setShowSettings(false)}
+                        accounts={accounts}
+                        onAddAccount={() => { setShowSettings(false); setAddingAccount(true); }}
+                    />
+                )}
+                {showDownloads && <DownloadsPanel onClose={() => setShowDownloads(false)} />}
             </div>
         </div>
     );
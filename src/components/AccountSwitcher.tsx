@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AccountsState } from '../types';
+import { useConnectivity } from '../hooks/useConnectivity';
+
+interface AccountSwitcherProps {
+    accounts: AccountsState;
+    onSwitch: (id: string) => void;
+    onAddAccount: () => void;
+}
+
+const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ accounts, onSwitch, onAddAccount }) => {
+    const { t } = useTranslation();
+    const { offline } = useConnectivity();
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const active = accounts.accounts.find(account => account.id === accounts.activeId);
+
+    // Close the menu on any click outside of it
+    useEffect(() => {
+        if (!open) return;
+        const onPointerDown = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', onPointerDown);
+        return () => document.removeEventListener('mousedown', onPointerDown);
+    }, [open]);
+
+    if (!active) return null;
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setOpen(prev => !prev)}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium"
+                title={t('accounts.switch')}
+            >
+                <img src={active.avatarUrl} alt="" className="w-5 h-5 rounded-full" />
+                {active.label}
+                <span className="text-xs text-gray-400">▾</span>
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 py-1">
+                    {accounts.accounts.map(account => (
+                        <button
+                            key={account.id}
+                            onClick={() => {
+                                setOpen(false);
+                                if (account.id !== accounts.activeId) onSwitch(account.id);
+                            }}
+                            className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-700 ${account.id === accounts.activeId ? 'text-cyan-400' : 'text-gray-200'}`}
+                        >
+                            <img src={account.avatarUrl} alt="" className="w-6 h-6 rounded-full" />
+                            <span className="flex-1 min-w-0">
+                                <span className="block truncate">{account.label}</span>
+                                <span className="block truncate text-xs text-gray-500">@{account.login} · {new URL(account.server.webUrl).host}</span>
+                                {account.needsSignIn && <span className="block truncate text-xs text-yellow-400">{t('accounts.needsSignIn')}</span>}
+                            </span>
+                            {account.id === accounts.activeId && <span aria-hidden>✓</span>}
+                        </button>
+                    ))}
+                    <div className="border-t border-gray-700 my-1" />
+                    <button
+                        onClick={() => { setOpen(false); onAddAccount(); }}
+                        disabled={offline}
+                        title={offline ? t('offline.unavailable') : undefined}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('accounts.add')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AccountSwitcher;
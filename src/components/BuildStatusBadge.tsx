@@ -0,0 +1,30 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { BuildStatus } from '../types';
+
+interface BuildStatusBadgeProps {
+    status: BuildStatus;
+    className?: string;
+}
+
+const STYLES: Record<Exclude<BuildStatus, null>, { badge: string; dot: string }> = {
+    success: { badge: 'bg-green-900/50 border-green-700 text-green-300', dot: 'bg-green-400' },
+    failure: { badge: 'bg-red-900/50 border-red-700 text-red-300', dot: 'bg-red-400' },
+    pending: { badge: 'bg-yellow-900/50 border-yellow-700 text-yellow-300', dot: 'bg-yellow-400 animate-pulse' },
+    cancelled: { badge: 'bg-gray-700/60 border-gray-600 text-gray-300', dot: 'bg-gray-400' },
+};
+
+const BuildStatusBadge: React.FC<BuildStatusBadgeProps> = ({ status, className }) => {
+    const { t } = useTranslation();
+    if (!status) return null;
+
+    const style = STYLES[status];
+    return (
+        <span className={`inline-flex items-center px-2 py-0.5 border rounded-full text-xs whitespace-nowrap ${style.badge} ${className || ''}`}>
+            <span className={`w-2 h-2 rounded-full mr-1.5 ${style.dot}`} />
+            {t(`actions.status.${status}`)}
+        </span>
+    );
+};
+
+export default BuildStatusBadge;
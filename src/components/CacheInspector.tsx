@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CacheStats } from '../types';
+import { CacheItem, getCacheStats } from '../services/cache';
+import { listCacheEntries, expireCacheEntries, removeCacheEntries, invalidateRepoCache, getCacheKind } from '../services/githubService';
+import { listBstatsCacheEntries, expireBstatsCacheEntries, removeBstatsCacheEntries, getBstatsCacheKind } from '../services/bstatsService';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { formatBytes } from '../utils/format';
+import DataAge from './DataAge';
+
+type Source = 'github' | 'bstats';
+
+type Row = CacheItem & {
+    source: Source;
+    kind: string;
+};
+
+// Rendering thousands of rows makes the settings dialog sluggish; the filter narrows it down
+const MAX_ROWS = 200;
+
+const SOURCE_ACTIONS: Record<Source, { expire: (keys: string[]) => Promise<void>; remove: (keys: string[]) => Promise<void> }> = {
+    github: { expire: expireCacheEntries, remove: removeCacheEntries },
+    bstats: { expire: expireBstatsCacheEntries, remove: removeBstatsCacheEntries },
+};
+
+const CacheInspector: React.FC = () => {
+    const { t } = useTranslation();
+    const { offline } = useConnectivity();
+    const [rows, setRows] = useState<Row[]>([]);
+    const [stats, setStats] = useState<CacheStats | null>(null);
+    const [filter, setFilter] = useState('');
+    const [repoName, setRepoName] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        const [github, bstats, usage] = await Promise.all([listCacheEntries(), listBstatsCacheEntries(), getCacheStats()]);
+        setRows([
+            ...github.map(item => ({ ...item, source: 'github' as const, kind: getCacheKind(item.key) })),
+            ...bstats.map(item => ({ ...item, source: 'bstats' as const, kind: getBstatsCacheKind(item.key) })),
+        ].sort((a, b) => b.size - a.size));
+        setStats(usage);
+    }, []);
+
+    useEffect(() => {
+        reload().catch(err => console.error('Failed to list cache entries', err));
+    }, [reload]);
+
+    const run = async (action: () => Promise<void>, done: string) => {
+        try {
+            await action();
+            setMessage(done);
+            await reload();
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    // Applies `act` to the rows, one call per source
+    const applyTo = (targets: Row[], act: 'expire' | 'remove') => Promise.all((['github', 'bstats'] as Source[]).map(source => {
+        const keys = targets.filter(row => row.source === source).map(row => row.key);
+        return keys.length > 0 ? SOURCE_ACTIONS[source][act](keys) : Promise.resolve();
+    })).then(() => undefined);
+
+    const groups = useMemo(() => {
+        const bySourceKind = new Map<string, { source: Source; kind: string; rows: Row[]; size: number }>();
+        rows.forEach(row => {
+            const id = `${row.source}:${row.kind}`;
+            const group = bySourceKind.get(id) ?? { source: row.source, kind: row.kind, rows: [], size: 0 };
+            group.rows.push(row);
+            group.size += row.size;
+            bySourceKind.set(id, group);
+        });
+        return Array.from(bySourceKind.values()).sort((a, b) => b.size - a.size);
+    }, [rows]);
+
+    const filtered = rows.filter(row => row.key.toLowerCase().includes(filter.trim().toLowerCase()));
+
+    const handleInvalidateRepo = () => {
+        const [owner, repo] = repoName.trim().split('/');
+        if (!owner || !repo) {
+            setMessage(t('cacheInspector.repoFormat'));
+            return;
+        }
+        run(() => invalidateRepoCache(owner, repo), t('cacheInspector.invalidated'));
+    };
+
+    return (
+        <div className="space-y-3">
+            {stats && (
+                <div className="text-sm text-gray-300">
+                    {t('cacheInspector.usage', { used: formatBytes(stats.size), limit: formatBytes(stats.limit), entries: stats.entries })}
+                    <div className="mt-1 h-2 bg-gray-700 rounded">
+                        <div className="h-2 bg-cyan-600 rounded" style={{ width: `${Math.min(100, (stats.size / stats.limit) * 100)}%` }} />
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <div className="text-xs text-gray-400 mb-1">{t('cacheInspector.byEndpoint')}</div>
+                <div className="grid grid-cols-2 gap-2">
+                    {groups.map(group => (
+                        <div key={`${group.source}:${group.kind}`} className="flex items-center justify-between px-2 py-1 bg-gray-700/50 rounded text-xs">
+                            <span className="font-mono text-gray-300">{group.source}/{group.kind}</span>
+                            <span className="text-gray-400">{group.rows.length} · {formatBytes(group.size)}</span>
+                            <button
+                                onClick={() => run(() => applyTo(group.rows, 'expire'), t('cacheInspector.invalidated'))}
+                                disabled={offline}
+                                className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                            >{t('cacheInspector.invalidate')}</button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={repoName}
+                    placeholder="owner/repo"
+                    onChange={(e) => setRepoName(e.target.value)}
+                    className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button
+                    onClick={handleInvalidateRepo}
+                    disabled={offline}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >{t('cacheInspector.invalidateRepo')}</button>
+            </div>
+
+            <input
+                type="text"
+                value={filter}
+                placeholder={t('cacheInspector.filter')}
+                onChange={(e) => setFilter(e.target.value)}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+            {message && <div className="text-xs text-gray-400">{message}</div>}
+            <div className="max-h-64 overflow-y-auto border border-gray-700 rounded">
+                <table className="w-full text-xs">
+                    <thead className="bg-gray-700/60 text-gray-400 sticky top-0">
+                        <tr>
+                            <th className="text-left px-2 py-1">{t('cacheInspector.source')}</th>
+                            <th className="text-left px-2 py-1">{t('cacheInspector.key')}</th>
+                            <th className="text-right px-2 py-1">{t('cacheInspector.size')}</th>
+                            <th className="text-left px-2 py-1">{t('cacheInspector.age')}</th>
+                            <th className="px-2 py-1" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {filtered.slice(0, MAX_ROWS).map(row => (
+                            <tr key={`${row.source}:${row.key}`} className="border-t border-gray-700">
+                                <td className="px-2 py-1 text-gray-400">{row.source}</td>
+                                <td className="px-2 py-1 font-mono text-gray-300 break-all">
+                                    {row.key}
+                                    {row.stale && <span className="ml-1 text-yellow-400">({t('cacheInspector.stale')})</span>}
+                                </td>
+                                <td className="px-2 py-1 text-right text-gray-400 whitespace-nowrap">{formatBytes(row.size)}</td>
+                                <td className="px-2 py-1 whitespace-nowrap"><DataAge fetchedAt={row.fetchedAt} /></td>
+                                <td className="px-2 py-1 whitespace-nowrap text-right space-x-1">
+                                    <button
+                                        onClick={() => run(() => applyTo([row], 'expire'), t('cacheInspector.invalidated'))}
+                                        disabled={offline}
+                                        className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >{t('cacheInspector.invalidate')}</button>
+                                    <button
+                                        onClick={() => run(() => applyTo([row], 'remove'), t('cacheInspector.removed'))}
+                                        className="px-2 py-0.5 bg-red-800 hover:bg-red-700 rounded"
+                                    >{t('cacheInspector.remove')}</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {filtered.length > MAX_ROWS && (
+                <div className="text-xs text-gray-500">{t('cacheInspector.truncated', { shown: MAX_ROWS, total: filtered.length })}</div>
+            )}
+        </div>
+    );
+};
+
+export default CacheInspector;
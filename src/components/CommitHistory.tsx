@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CommitActivityWeek, GitHubCommitDetail, GitHubRepo } from '../types';
+import { OfflineError } from '../services/connectivityService';
+import {
+    fetchCommitHistory, fetchCommitDetail, fetchCommitActivity, CommitHistoryFilter, CommitHistoryPage, GitHubApiError,
+    GITHUB_CACHE_UPDATED_EVENT,
+} from '../services/githubService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+import { ExternalLinkIcon } from './Icons';
+
+interface CommitHistoryProps {
+    repo: GitHubRepo;
+    // Bumped by the parent to re-read after the repository's cache was invalidated
+    reloadKey: number;
+}
+
+// GitHub answers 202 while it computes repository statistics; ask again a few times before giving up
+const ACTIVITY_RETRY_DELAY = 5000;
+const ACTIVITY_MAX_RETRIES = 5;
+
+const HEAT_LEVELS = ['bg-gray-700/60', 'bg-cyan-900', 'bg-cyan-700', 'bg-cyan-500', 'bg-cyan-300'];
+
+const heatLevel = (count: number, max: number): number => {
+    if (count === 0 || max === 0) return 0;
+    return Math.min(HEAT_LEVELS.length - 1, Math.ceil((count / max) * (HEAT_LEVELS.length - 1)));
+};
+
+const formatDate = (date: string): string => new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+});
+
+const ActivityHeatmap: React.FC<{ repo: GitHubRepo; reloadKey: number }> = ({ repo, reloadKey }) => {
+    const { t } = useTranslation();
+    const [weeks, setWeeks] = useState<CommitActivityWeek[] | null>(null);
+    const [status, setStatus] = useState<'loading' | 'computing' | 'error' | 'ready'>('loading');
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const load = async (attempt: number) => {
+            try {
+                const data = await fetchCommitActivity(repo.owner.login, repo.name);
+                if (cancelled) return;
+                setWeeks(data);
+                setStatus('ready');
+            } catch (err) {
+                if (cancelled) return;
+                if (err instanceof GitHubApiError && err.status === 202 && attempt < ACTIVITY_MAX_RETRIES) {
+                    setStatus('computing');
+                    timer = setTimeout(() => load(attempt + 1), ACTIVITY_RETRY_DELAY);
+                    return;
+                }
+                console.warn(`Commit activity unavailable for ${repo.full_name}`, err);
+                setStatus('error');
+            }
+        };
+        setStatus('loading');
+        load(0);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [repo, reloadKey]);
+
+    if (status === 'loading') return null;
+    if (status === 'computing') return <p className="text-sm text-gray-500 mb-6">{t('commits.activityComputing')}</p>;
+    if (status === 'error' || !weeks) return <p className="text-sm text-gray-500 mb-6">{t('commits.activityUnavailable')}</p>;
+
+    const max = Math.max(0, ...weeks.flatMap(week => week.days));
+    const total = weeks.reduce((sum, week) => sum + week.total, 0);
+
+    return (
+        <div className="mb-8">
+            <div className="text-sm text-gray-400 mb-2">{t('commits.activityTotal', { count: total })}</div>
+            <div className="flex gap-[3px] overflow-x-auto pb-1">
+                {weeks.map(week => (
+                    <div key={week.week} className="flex flex-col gap-[3px]">
+                        {week.days.map((count, day) => {
+                            const date = new Date((week.week + day * 24 * 60 * 60) * 1000);
+                            return (
+                                <div
+                                    key={day}
+                                    className={`w-3 h-3 rounded-sm ${HEAT_LEVELS[heatLevel(count, max)]}`}
+                                    title={t('commits.activityDay', { count, date: date.toLocaleDateString() })}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const CommitFiles: React.FC<{ repo: GitHubRepo; sha: string }> = ({ repo, sha }) => {
+    const { t } = useTranslation();
+    const [detail, setDetail] = useState<GitHubCommitDetail | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchCommitDetail(repo.owner.login, repo.name, sha)
+            .then(data => { if (!cancelled) setDetail(data); })
+            .catch(err => {
+                console.error(`Failed to load commit ${sha} of ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('commits.detailsError'));
+            });
+        return () => { cancelled = true; };
+    }, [repo, sha, t]);
+
+    if (error) return <p className="text-sm text-red-400 mt-2">{error}</p>;
+    if (!detail) return <div className="flex justify-center py-3"><LoadingSpinner /></div>;
+
+    return (
+        <ul className="mt-3 space-y-1 text-xs font-mono">
+            {detail.files.map(file => (
+                <li key={file.filename} className="flex items-center justify-between gap-4">
+                    <a href={file.blob_url} target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-cyan-400 hover:underline truncate">
+                        <span className="text-gray-500 mr-2">{file.status[0].toUpperCase()}</span>{file.filename}
+                    </a>
+                    <span className="flex-shrink-0">
+                        <span className="text-green-400">+{file.additions}</span> <span className="text-red-400">-{file.deletions}</span>
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const emptyFilter: CommitHistoryFilter = {};
+
+const CommitHistory: React.FC<CommitHistoryProps> = ({ repo, reloadKey }) => {
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState<CommitHistoryFilter>(emptyFilter);
+    const [filter, setFilter] = useState<CommitHistoryFilter>(emptyFilter);
+    const [pages, setPages] = useState<CommitHistoryPage[]>([]);
+    const [pageCount, setPageCount] = useState(1);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        setDraft(emptyFilter);
+        setFilter(emptyFilter);
+        setPageCount(1);
+        setExpanded(null);
+    }, [repo]);
+
+    // Re-reads every page shown so far; they come from the cache, so only new pages cost requests
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const loaded: CommitHistoryPage[] = [];
+                let cursor: string | null = null;
+                for (let page = 1; page <= pageCount && (page === 1 || cursor); page++) {
+                    const result: CommitHistoryPage = await fetchCommitHistory(repo.owner.login, repo.name, filter, page, cursor);
+                    loaded.push(result);
+                    cursor = result.next;
+                }
+                if (!cancelled) setPages(loaded);
+            } catch (err) {
+                console.error(`Failed to load commit history for ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('commits.error'));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [repo, filter, pageCount, reloadKey, cacheRevision, t]);
+
+    const applyFilter = (e: React.FormEvent) => {
+        e.preventDefault();
+        setPageCount(1);
+        setFilter({
+            author: draft.author?.trim() || undefined,
+            path: draft.path?.trim() || undefined,
+            // Whole days: from the start of `since` to the end of `until`, in UTC
+            since: draft.since ? `${draft.since.slice(0, 10)}T00:00:00Z` : undefined,
+            until: draft.until ? `${draft.until.slice(0, 10)}T23:59:59Z` : undefined,
+        });
+    };
+
+    const clearFilter = () => {
+        setDraft(emptyFilter);
+        setPageCount(1);
+        setFilter(emptyFilter);
+    };
+
+    const commits = pages.flatMap(page => page.commits);
+    const hasMore = pages.length > 0 && pages[pages.length - 1].next !== null;
+    const inputClass = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+    return (
+        <div>
+            <ActivityHeatmap repo={repo} reloadKey={reloadKey} />
+
+            <form onSubmit={applyFilter} className="flex flex-wrap items-center gap-2 mb-4">
+                <input type="text" value={draft.author ?? ''} placeholder={t('commits.author')} onChange={(e) => setDraft({ ...draft, author: e.target.value })} className={inputClass} />
+                <input type="text" value={draft.path ?? ''} placeholder={t('commits.path')} onChange={(e) => setDraft({ ...draft, path: e.target.value })} className={`flex-1 min-w-[10rem] font-mono ${inputClass}`} />
+                <label className="text-sm text-gray-400">{t('commits.since')}</label>
+                <input type="date" value={draft.since?.slice(0, 10) ?? ''} onChange={(e) => setDraft({ ...draft, since: e.target.value })} className={inputClass} />
+                <label className="text-sm text-gray-400">{t('commits.until')}</label>
+                <input type="date" value={draft.until?.slice(0, 10) ?? ''} onChange={(e) => setDraft({ ...draft, until: e.target.value })} className={inputClass} />
+                <button type="submit" className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 rounded text-sm text-white">{t('commits.apply')}</button>
+                <button type="button" onClick={clearFilter} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm">{t('commits.clear')}</button>
+            </form>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center mb-4" role="alert">{error}</div>
+            )}
+
+            {!loading && !error && commits.length === 0 && <p className="text-gray-500 pl-2">{t('commits.none')}</p>}
+
+            <ul className="space-y-2">
+                {commits.map(commit => (
+                    <li key={commit.sha} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+                        <div className="flex items-start justify-between gap-4">
+                            <button onClick={() => setExpanded(expanded === commit.sha ? null : commit.sha)} className="min-w-0 flex-1 text-left" aria-expanded={expanded === commit.sha}>
+                                <div className="text-gray-100 truncate">{commit.message.split('\n')[0]}</div>
+                                <div className="text-xs text-gray-400 mt-1 flex flex-wrap gap-x-3">
+                                    <span className="font-mono text-gray-500">{commit.sha.slice(0, 7)}</span>
+                                    <span>{commit.author.login ? `@${commit.author.login}` : commit.author.name}</span>
+                                    <span>{formatDate(commit.date)}</span>
+                                    {commit.changed_files !== null && <span>{t('commits.files', { count: commit.changed_files })}</span>}
+                                    <span><span className="text-green-400">+{commit.additions}</span> <span className="text-red-400">-{commit.deletions}</span></span>
+                                </div>
+                            </button>
+                            <a href={commit.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 flex-shrink-0" aria-label={t('commits.open')}>
+                                <ExternalLinkIcon className="w-4 h-4" />
+                            </a>
+                        </div>
+                        {expanded === commit.sha && <CommitFiles repo={repo} sha={commit.sha} />}
+                    </li>
+                ))}
+            </ul>
+
+            {loading && <div className="flex justify-center py-6"><LoadingSpinner /></div>}
+
+            {!loading && hasMore && (
+                <div className="flex justify-center mt-6">
+                    <button onClick={() => setPageCount(pages.length + 1)} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors">
+                        {t('commits.loadMore')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CommitHistory;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubRepo } from '../types';
+import { knownMcVersions, repoSupport, CompatibilityStatus, RepoCompatibility } from '../services/compatibilityService';
+import { useCompatibility } from '../hooks/useCompatibility';
+import LoadingSpinner from './LoadingSpinner';
+
+type Props = {
+    repos: GitHubRepo[];
+    // The repository list is still streaming in; reading starts once it is complete
+    loading: boolean;
+};
+
+const STATUS_STYLES: Record<CompatibilityStatus, string> = {
+    supported: 'bg-green-900/50 text-green-300 border-green-700',
+    likely: 'bg-cyan-900/40 text-cyan-300 border-cyan-800',
+    unsupported: 'bg-red-900/30 text-red-300 border-red-900',
+    unknown: 'bg-gray-800 text-gray-500 border-gray-700',
+};
+
+const hasVersionInfo = (compatibility: RepoCompatibility): boolean => compatibility.releases.some(release => release.apiVersion || release.ranges.length > 0);
+
+const CompatibilityMatrix: React.FC<Props> = ({ repos, loading }) => {
+    const { t } = useTranslation();
+    const { compatibilities, progress } = useCompatibility(repos, !loading);
+    const [hideUnknown, setHideUnknown] = useState(true);
+
+    if (!compatibilities) {
+        return (
+            <div className="flex flex-col items-center py-12 gap-4">
+                <LoadingSpinner />
+                <p className="text-sm text-gray-400">{t('compatibility.progress', { done: progress, total: repos.length })}</p>
+            </div>
+        );
+    }
+
+    const versions = knownMcVersions(compatibilities);
+    const rows = compatibilities.filter(compatibility => !hideUnknown || hasVersionInfo(compatibility));
+
+    return (
+        <section>
+            <div className="flex flex-wrap items-baseline justify-between gap-4 mb-1">
+                <h2 className="text-xl font-bold text-gray-200">{t('compatibility.title')}</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <input type="checkbox" checked={hideUnknown} onChange={(e) => setHideUnknown(e.target.checked)} className="accent-cyan-500" />
+                    {t('compatibility.hideUnknown')}
+                </label>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">{t('compatibility.help')}</p>
+
+            <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                {(Object.keys(STATUS_STYLES) as CompatibilityStatus[]).map(status => (
+                    <span key={status} className={`px-2 py-0.5 rounded-full border ${STATUS_STYLES[status]}`}>{t(`compatibility.statuses.${status}`)}</span>
+                ))}
+            </div>
+
+            {versions.length === 0 || rows.length === 0 ? (
+                <p className="text-gray-500">{t('compatibility.none')}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="text-sm border-separate border-spacing-1">
+                        <thead className="text-gray-400">
+                            <tr>
+                                <th className="text-left py-2 pr-4 sticky left-0 bg-gray-900">{t('compatibility.plugin')}</th>
+                                {versions.map(version => <th key={version} className="py-2 px-1 font-mono font-normal whitespace-nowrap">{version}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(compatibility => (
+                                <tr key={compatibility.repo.id}>
+                                    <td className="py-1 pr-4 text-gray-200 whitespace-nowrap sticky left-0 bg-gray-900">{compatibility.repo.name}</td>
+                                    {versions.map(version => {
+                                        const support = repoSupport(compatibility, version);
+                                        return (
+                                            <td
+                                                key={version}
+                                                className={`px-2 py-1 border rounded text-center text-xs font-mono whitespace-nowrap ${STATUS_STYLES[support.status]}`}
+                                                title={t(`compatibility.statuses.${support.status}`)}
+                                            >
+                                                {support.release ? (
+                                                    <a href={support.release.html_url} target="_blank" rel="noopener noreferrer" className="hover:underline">{support.release.tag_name}</a>
+                                                ) : support.status === 'unsupported' ? '✕' : '·'}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default CompatibilityMatrix;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface DataAgeProps {
+    // Epoch millis the displayed data was fetched at; nothing is rendered while unknown
+    fetchedAt: number | null;
+    className?: string;
+}
+
+const UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ['day', 24 * 60 * 60 * 1000],
+    ['hour', 60 * 60 * 1000],
+    ['minute', 60 * 1000],
+];
+
+// "3 hours ago" in the given language, or null for less than a minute
+export const formatElapsed = (elapsed: number, language: string): string | null => {
+    const unit = UNITS.find(([, ms]) => elapsed >= ms);
+    return unit ? new Intl.RelativeTimeFormat(language, { numeric: 'auto' }).format(-Math.floor(elapsed / unit[1]), unit[0]) : null;
+};
+
+const DataAge: React.FC<DataAgeProps> = ({ fetchedAt, className }) => {
+    const { t, i18n } = useTranslation();
+    const [now, setNow] = useState(() => Date.now());
+
+    // Re-render periodically so the label keeps ageing while the data sits on screen
+    useEffect(() => {
+        const intervalId = setInterval(() => setNow(Date.now()), 30 * 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    if (fetchedAt === null) return null;
+
+    const age = formatElapsed(Math.max(0, now - fetchedAt), i18n.language) ?? t('dataAge.justNow');
+
+    return (
+        <span className={`text-xs text-gray-400 ${className || ''}`} title={new Date(fetchedAt).toLocaleString()}>
+            {t('dataAge.updated', { age })}
+        </span>
+    );
+};
+
+export default DataAge;
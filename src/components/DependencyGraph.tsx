@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as echarts from 'echarts';
+import { GitHubRelease, GitHubRepo } from '../types';
+import { fetchAllReleases, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import {
+    dependencyEdges, fetchRepoPlugins, isCorePlugin, requiredCoreVersion, CORE_PLUGIN, CoreVersion, DependencyEdge, RepoPlugin,
+} from '../services/dependencyService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+
+type Props = { repos: GitHubRepo[] };
+
+type GraphNode = { id: string; name: string; category: number; symbolSize: number; details: string[] };
+
+const CATEGORY_COLORS = ['#2dd4bf', '#06b6d4', '#6b7280'];
+
+const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const externalId = (name: string): string => `external:${name.toLowerCase()}`;
+
+// The oldest core a plugin's latest release works with, for plugins that hard-depend on the core
+const coreRequirementOf = (plugin: RepoPlugin, coreReleases: GitHubRelease[]): CoreVersion | null => {
+    return plugin.latest ? requiredCoreVersion(plugin.description, plugin.latest, coreReleases) : null;
+};
+
+const GraphChart: React.FC<{ nodes: GraphNode[]; edges: DependencyEdge[]; categories: string[] }> = ({ nodes, edges, categories }) => {
+    const ref = React.useRef<HTMLDivElement | null>(null);
+    useEffect(() => {
+        if (!ref.current) return;
+        const chart = echarts.init(ref.current);
+        const option: echarts.EChartsOption = {
+            tooltip: {
+                formatter: (params) => {
+                    const item = Array.isArray(params) ? params[0] : params;
+                    if (item.dataType !== 'node') return '';
+                    const node = item.data as GraphNode;
+                    return [`<strong>${escapeHtml(node.name)}</strong>`, ...node.details.map(escapeHtml)].join('<br/>');
+                },
+            },
+            legend: { data: categories, textStyle: { color: '#d1d5db' }, top: 0 },
+            color: CATEGORY_COLORS,
+            series: [{
+                type: 'graph',
+                layout: 'force',
+                roam: true,
+                draggable: true,
+                force: { repulsion: 260, edgeLength: 110, gravity: 0.08 },
+                categories: categories.map(name => ({ name })),
+                label: { show: true, position: 'right', color: '#d1d5db' },
+                edgeSymbol: ['none', 'arrow'],
+                edgeSymbolSize: 8,
+                data: nodes,
+                links: edges.map(edge => ({
+                    source: edge.from,
+                    target: edge.toRepo?.full_name ?? externalId(edge.to),
+                    lineStyle: { type: edge.soft ? 'dashed' : 'solid', color: '#6b7280', opacity: edge.soft ? 0.6 : 0.9, curveness: 0.1 },
+                })),
+            }],
+        };
+        chart.setOption(option);
+        const resize = () => chart.resize();
+        window.addEventListener('resize', resize);
+        return () => { window.removeEventListener('resize', resize); chart.dispose(); };
+    }, [nodes, edges, categories]);
+    return <div ref={ref} style={{ width: '100%', height: 520 }} />;
+};
+
+const DependencyGraph: React.FC<Props> = ({ repos }) => {
+    const { t } = useTranslation();
+    const [plugins, setPlugins] = useState<RepoPlugin[] | null>(null);
+    const [coreReleases, setCoreReleases] = useState<GitHubRelease[]>([]);
+    const [progress, setProgress] = useState(0);
+    const [showSoft, setShowSoft] = useState(true);
+    const [showExternal, setShowExternal] = useState(false);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPlugins(null);
+        setProgress(0);
+        const core = repos.find(repo => isCorePlugin(repo.name));
+        Promise.all([
+            fetchRepoPlugins(repos, done => { if (!cancelled) setProgress(done); }),
+            core ? fetchAllReleases(core.owner.login, core.name).catch(err => {
+                console.warn(`Could not read the releases of ${core.full_name}`, err);
+                return [];
+            }) : Promise.resolve([]),
+        ]).then(([loaded, releases]) => {
+            if (cancelled) return;
+            setPlugins(loaded);
+            setCoreReleases(releases);
+        });
+        return () => { cancelled = true; };
+    }, [repos, cacheRevision]);
+
+    const categories = useMemo(() => [CORE_PLUGIN, t('dependencies.categories.plugins'), t('dependencies.categories.external')], [t]);
+
+    const graph = useMemo(() => {
+        if (!plugins) return null;
+        const edges = dependencyEdges(plugins).filter(edge => (showSoft || !edge.soft) && (showExternal || edge.toRepo));
+        const dependents = (id: string) => edges.filter(edge => (edge.toRepo?.full_name ?? externalId(edge.to)) === id).length;
+        // Plugins without a descriptor have no place in the graph
+        const nodes: GraphNode[] = plugins.filter(plugin => plugin.description).map(plugin => {
+            const requirement = coreRequirementOf(plugin, coreReleases);
+            return {
+                id: plugin.repo.full_name,
+                name: plugin.description!.name,
+                category: isCorePlugin(plugin.description!.name) ? 0 : 1,
+                symbolSize: 14 + Math.min(30, dependents(plugin.repo.full_name) * 4),
+                details: [
+                    plugin.repo.full_name,
+                    t('dependencies.version', { version: plugin.description!.version ?? '?' }),
+                    ...(requirement ? [t(requirement.estimated ? 'dependencies.coreEstimate' : 'dependencies.coreRequirement', { core: CORE_PLUGIN, version: requirement.version })] : []),
+                ],
+            };
+        });
+        const external = new Map<string, string>();
+        edges.filter(edge => !edge.toRepo).forEach(edge => external.set(externalId(edge.to), edge.to));
+        external.forEach((name, id) => nodes.push({ id, name, category: 2, symbolSize: 10 + Math.min(20, dependents(id) * 3), details: [t('dependencies.externalPlugin')] }));
+        return { nodes, edges };
+    }, [plugins, coreReleases, showSoft, showExternal, t]);
+
+    if (!plugins || !graph) {
+        return (
+            <div className="flex flex-col items-center py-12 gap-4">
+                <LoadingSpinner />
+                <p className="text-sm text-gray-400">{t('dependencies.progress', { done: progress, total: repos.length })}</p>
+            </div>
+        );
+    }
+
+    const unreadable = plugins.filter(plugin => !plugin.description);
+
+    return (
+        <div className="space-y-8">
+            <section className="p-6 bg-gray-800 border border-gray-700 rounded-lg">
+                <div className="flex flex-wrap items-baseline justify-between gap-4 mb-1">
+                    <h2 className="text-xl font-bold text-gray-200">{t('dependencies.title')}</h2>
+                    <div className="flex items-center gap-4 text-sm text-gray-400">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={showSoft} onChange={(e) => setShowSoft(e.target.checked)} className="accent-cyan-500" />
+                            {t('dependencies.showSoft')}
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={showExternal} onChange={(e) => setShowExternal(e.target.checked)} className="accent-cyan-500" />
+                            {t('dependencies.showExternal')}
+                        </label>
+                    </div>
+                </div>
+                <p className="text-sm text-gray-400 mb-4">{t('dependencies.help')}</p>
+                {graph.nodes.length > 0 ? <GraphChart nodes={graph.nodes} edges={graph.edges} categories={categories} /> : <p className="text-gray-500">{t('dependencies.none')}</p>}
+            </section>
+
+            <section>
+                <table className="w-full text-sm">
+                    <thead className="text-gray-400 border-b border-gray-700">
+                        <tr>
+                            <th className="text-left py-2">{t('dependencies.plugin')}</th>
+                            <th className="text-left py-2">{t('dependencies.versionColumn')}</th>
+                            <th className="text-left py-2">{t('dependencies.depend')}</th>
+                            <th className="text-left py-2">{t('dependencies.softdepend')}</th>
+                            <th className="text-left py-2">{t('dependencies.coreColumn', { core: CORE_PLUGIN })}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {plugins.filter(plugin => plugin.description).map(plugin => {
+                            const requirement = coreRequirementOf(plugin, coreReleases);
+                            return (
+                                <tr key={plugin.repo.id} className="border-b border-gray-800 align-top">
+                                    <td className="py-2">
+                                        <div className="text-gray-200">{plugin.description!.name}</div>
+                                        <div className="text-xs text-gray-500">{plugin.repo.full_name} · {t(`dependencies.sources.${plugin.source}`)}</div>
+                                    </td>
+                                    <td className="py-2 font-mono text-gray-300">{plugin.description!.version ?? '—'}</td>
+                                    <td className="py-2 text-gray-300">{plugin.description!.depend.join(', ') || '—'}</td>
+                                    <td className="py-2 text-gray-400">{plugin.description!.softdepend.join(', ') || '—'}</td>
+                                    <td className="py-2 font-mono text-gray-300">
+                                        {requirement ? `≥ ${requirement.version}` : '—'}
+                                        {requirement?.estimated && <span className="ml-2 font-sans text-xs text-gray-500" title={t('dependencies.estimateHelp')}>{t('dependencies.estimate')}</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {unreadable.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-4">{t('dependencies.unreadable', { repos: unreadable.map(plugin => plugin.repo.name).join(', ') })}</p>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default DependencyGraph;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DownloadEntry } from '../types';
+import {
+    cancelDownload, getDownloadDirectory, isDownloadActive, openDownloadDirectory, pauseDownload, removeDownloads, resumeDownload,
+    revealDownload,
+} from '../services/downloadService';
+import { useDownloads } from '../hooks/useDownloads';
+import { formatBytes } from '../utils/format';
+
+interface DownloadsPanelProps {
+    onClose: () => void;
+}
+
+const CHECKSUM_STYLES: Record<NonNullable<DownloadEntry['checksum']>, string> = {
+    verified: 'bg-green-900/50 text-green-300 border-green-700',
+    mismatch: 'bg-red-900/50 text-red-300 border-red-700',
+    unavailable: 'bg-gray-700 text-gray-300 border-gray-600',
+    error: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+};
+
+const progressOf = (entry: DownloadEntry): number | null => {
+    if (entry.totalBytes <= 0) return null;
+    return Math.min(100, Math.round((entry.receivedBytes / entry.totalBytes) * 100));
+};
+
+const DownloadsPanel: React.FC<DownloadsPanelProps> = ({ onClose }) => {
+    const { t } = useTranslation();
+    const entries = useDownloads();
+    const [directory, setDirectory] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        getDownloadDirectory().then(setDirectory).catch(err => console.error('Failed to read the download folder', err));
+    }, []);
+
+    const run = (action: Promise<unknown>) => {
+        setMessage(null);
+        action.catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+    };
+
+    const handleReveal = async (id: string) => {
+        setMessage(null);
+        if (!await revealDownload(id)) setMessage(t('downloadManager.missingFile'));
+    };
+
+    const finished = entries.filter(entry => !isDownloadActive(entry));
+    const buttonClass = 'px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-gray-800 p-6 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                    <h2 className="text-2xl font-bold text-gray-100">{t('downloadManager.title')}</h2>
+                    <button onClick={onClose} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm">{t('downloadManager.close')}</button>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-400 mb-4">
+                    <span className="truncate font-mono" title={directory}>{directory}</span>
+                    <button onClick={() => run(openDownloadDirectory())} className={`${buttonClass} flex-shrink-0`}>{t('downloadManager.openFolder')}</button>
+                </div>
+
+                {message && <div className="text-sm text-red-400 mb-3" role="alert">{message}</div>}
+
+                {entries.length === 0 && <p className="text-gray-500">{t('downloadManager.empty')}</p>}
+
+                <ul className="space-y-2">
+                    {entries.map(entry => {
+                        const progress = progressOf(entry);
+                        return (
+                            <li key={entry.id} className="p-3 bg-gray-700/50 border border-gray-600 rounded-lg">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="text-gray-100 truncate" title={entry.path ?? entry.fileName}>{entry.fileName}</div>
+                                        <div className="text-xs text-gray-400 mt-0.5">
+                                            {[entry.repo, entry.tag].filter(Boolean).join(' · ')}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                        {entry.checksum && (
+                                            <span className={`px-2 py-0.5 rounded-full border text-xs ${CHECKSUM_STYLES[entry.checksum]}`} title={entry.sha256 ?? undefined}>
+                                                {t(`downloadManager.checksum.${entry.checksum}`)}
+                                            </span>
+                                        )}
+                                        {entry.status === 'downloading' && <button onClick={() => run(pauseDownload(entry.id))} className={buttonClass}>{t('downloadManager.pause')}</button>}
+                                        {entry.status === 'paused' && <button onClick={() => run(resumeDownload(entry.id))} className={buttonClass}>{t('downloadManager.resume')}</button>}
+                                        {(entry.status === 'failed' || entry.status === 'cancelled') && (
+                                            <button onClick={() => run(resumeDownload(entry.id))} className={buttonClass}>{t('downloadManager.retry')}</button>
+                                        )}
+                                        {['queued', 'downloading', 'paused'].includes(entry.status) && (
+                                            <button onClick={() => run(cancelDownload(entry.id))} className={buttonClass}>{t('downloadManager.cancel')}</button>
+                                        )}
+                                        {(entry.status === 'completed' || entry.checksum === 'error') && <button onClick={() => handleReveal(entry.id)} className={buttonClass}>{t('downloadManager.reveal')}</button>}
+                                        {!isDownloadActive(entry) && (
+                                            <button onClick={() => run(removeDownloads([entry.id]))} className={buttonClass} aria-label={t('downloadManager.remove')}>×</button>
+                                        )}
+                                    </div>
+                                </div>
+                                {isDownloadActive(entry) && (
+                                    <div className="mt-2 h-1.5 bg-gray-600 rounded overflow-hidden">
+                                        <div
+                                            className={`h-full ${entry.status === 'paused' ? 'bg-gray-400' : 'bg-cyan-500'} ${progress === null && entry.status === 'downloading' ? 'animate-pulse' : ''}`}
+                                            style={{ width: `${progress ?? (entry.status === 'downloading' ? 100 : 0)}%` }}
+                                        />
+                                    </div>
+                                )}
+                                <div className="flex justify-between text-xs text-gray-400 mt-1">
+                                    <span>{t(`downloadManager.status.${entry.status}`)}</span>
+                                    <span>
+                                        {entry.totalBytes > 0 && isDownloadActive(entry) ? `${formatBytes(entry.receivedBytes)} / ${formatBytes(entry.totalBytes)}` : entry.receivedBytes > 0 ? formatBytes(entry.receivedBytes) : ''}
+                                        {entry.finishedAt && ` · ${new Date(entry.finishedAt).toLocaleString()}`}
+                                    </span>
+                                </div>
+                                {entry.error && <div className="text-xs text-red-400 mt-1 break-all">{entry.error}</div>}
+                                {entry.checksum === 'error' && entry.sha256 && (
+                                    <div className="text-xs text-gray-400 mt-1 font-mono break-all">{t('downloadManager.sha256', { hash: entry.sha256 })}</div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                {finished.length > 0 && (
+                    <div className="flex justify-end mt-4">
+                        <button onClick={() => run(removeDownloads(finished.map(entry => entry.id)))} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm">
+                            {t('downloadManager.clearFinished')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DownloadsPanel;
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as echarts from 'echarts';
+import { GitHubRepo } from '../types';
+import { GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { fetchDownloadLeaderboard, getDownloadSnapshots, RepoDownloads } from '../services/downloadStatsService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+
+type Props = { repos: GitHubRepo[] };
+
+// Repos plotted until the user picks others
+const DEFAULT_CHART_REPOS = 5;
+
+const TrendChart: React.FC<{ series: Array<{ name: string; points: Array<[string, number]> }> }> = ({ series }) => {
+    const ref = React.useRef<HTMLDivElement | null>(null);
+    useEffect(() => {
+        if (!ref.current) return;
+        const chart = echarts.init(ref.current);
+        const option: echarts.EChartsOption = {
+            tooltip: { trigger: 'axis' },
+            legend: { textStyle: { color: '#d1d5db' }, top: 0 },
+            grid: { left: 60, right: 20, top: 40, bottom: 30 },
+            xAxis: { type: 'time', axisLabel: { color: '#9ca3af' } },
+            yAxis: { type: 'value', axisLabel: { color: '#9ca3af' }, splitLine: { lineStyle: { color: '#374151' } } },
+            series: series.map(s => ({ name: s.name, type: 'line', data: s.points, showSymbol: s.points.length < 2 })),
+        };
+        chart.setOption(option);
+        const resize = () => chart.resize();
+        window.addEventListener('resize', resize);
+        return () => { window.removeEventListener('resize', resize); chart.dispose(); };
+    }, [series]);
+    return <div ref={ref} style={{ width: '100%', height: 320 }} />;
+};
+
+const DownloadsTab: React.FC<Props> = ({ repos }) => {
+    const { t, i18n } = useTranslation();
+    const [rows, setRows] = useState<RepoDownloads[]>([]);
+    const [progress, setProgress] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<Set<number> | null>(null);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchDownloadLeaderboard(repos, (done, partial) => {
+            if (cancelled) return;
+            setProgress(done);
+            setRows([...partial].sort((a, b) => b.total - a.total));
+        })
+            .then(result => { if (!cancelled) setRows(result); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [repos, cacheRevision]);
+
+    const number = useMemo(() => new Intl.NumberFormat(i18n.language), [i18n.language]);
+    const grandTotal = rows.reduce((sum, row) => sum + row.total, 0);
+    const chartRepoIds = useMemo(() => selected ?? new Set(rows.slice(0, DEFAULT_CHART_REPOS).map(row => row.repo.id)), [selected, rows]);
+
+    // Built once the list has settled, so the chart is not redrawn for every repository that comes in
+    const chartSeries = useMemo(() => loading ? [] : rows
+        .filter(row => chartRepoIds.has(row.repo.id))
+        .map(row => ({
+            name: row.repo.name,
+            points: getDownloadSnapshots(row.repo).map(snapshot => [snapshot.day, snapshot.total] as [string, number]),
+        })), [loading, rows, chartRepoIds]);
+
+    const firstDay = chartSeries.flatMap(s => s.points.map(p => p[0])).sort()[0];
+
+    const toggle = (id: number) => {
+        const next = new Set(chartRepoIds);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        setSelected(next);
+    };
+
+    return (
+        <div className="space-y-8">
+            <section className="p-6 bg-gray-800 border border-gray-700 rounded-lg">
+                <h2 className="text-xl font-bold text-gray-200 mb-1">{t('downloads.trendTitle')}</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    {firstDay ? t('downloads.trackingSince', { date: new Date(firstDay).toLocaleDateString() }) : t('downloads.trendHelp')}
+                </p>
+                {loading ? (
+                    <div className="flex justify-center py-12"><LoadingSpinner /></div>
+                ) : chartSeries.length > 0 ? (
+                    <TrendChart series={chartSeries} />
+                ) : (
+                    <p className="text-gray-500">{t('downloads.noneSelected')}</p>
+                )}
+            </section>
+
+            <section>
+                <div className="flex items-baseline justify-between mb-4">
+                    <h2 className="text-xl font-bold text-gray-200">{t('downloads.leaderboard')}</h2>
+                    <span className="text-sm text-gray-400">
+                        {loading ? t('downloads.progress', { done: progress, total: repos.length }) : t('downloads.total', { total: number.format(grandTotal) })}
+                    </span>
+                </div>
+                <table className="w-full text-sm">
+                    <thead className="text-gray-400 border-b border-gray-700">
+                        <tr>
+                            <th className="text-left py-2 w-10">#</th>
+                            <th className="text-left py-2">{t('downloads.repository')}</th>
+                            <th className="text-right py-2">{t('downloads.downloads')}</th>
+                            <th className="text-left py-2 pl-6">{t('downloads.latest')}</th>
+                            <th className="text-left py-2 pl-6">{t('downloads.top')}</th>
+                            <th className="text-center py-2">{t('downloads.chart')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, index) => (
+                            <tr key={row.repo.id} className="border-b border-gray-800">
+                                <td className="py-2 text-gray-500">{index + 1}</td>
+                                <td className="py-2 text-gray-200">{row.repo.full_name}</td>
+                                <td className="py-2 text-right font-mono text-cyan-400">{number.format(row.total)}</td>
+                                <td className="py-2 pl-6 text-gray-400">{row.latest ? `${row.latest.tag} (${number.format(row.latest.downloads)})` : '—'}</td>
+                                <td className="py-2 pl-6 text-gray-400">{row.top ? `${row.top.tag} (${number.format(row.top.downloads)})` : '—'}</td>
+                                <td className="py-2 text-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={chartRepoIds.has(row.repo.id)}
+                                        onChange={() => toggle(row.repo.id)}
+                                        aria-label={t('downloads.plot', { repo: row.repo.name })}
+                                        className="accent-cyan-500"
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+        </div>
+    );
+};
+
+export default DownloadsTab;
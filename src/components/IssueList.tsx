@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubIssue, GitHubPullRequest, GitHubRepo } from '../types';
+import { OfflineError } from '../services/connectivityService';
+import { fetchOpenIssues, fetchOpenPullRequests, getIssuesFetchedAt, getPullRequestsFetchedAt, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+import DataAge, { formatElapsed } from './DataAge';
+
+export type IssueListKind = 'issues' | 'pulls';
+
+interface IssueListProps {
+    repo: GitHubRepo;
+    kind: IssueListKind;
+    // Bumped by the parent to re-read after the repository's cache was invalidated
+    reloadKey: number;
+}
+
+type Item = GitHubIssue & Partial<Pick<GitHubPullRequest, 'draft' | 'head_ref' | 'review_decision'>>;
+
+type ReviewFilter = '' | 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | 'DRAFT';
+type SortOrder = 'newest' | 'oldest' | 'updated';
+
+const UNASSIGNED = '\u0000unassigned';
+
+const REVIEW_STYLES: Record<Exclude<ReviewFilter, ''>, string> = {
+    APPROVED: 'bg-green-900/60 border-green-700 text-green-300',
+    CHANGES_REQUESTED: 'bg-red-900/60 border-red-700 text-red-300',
+    REVIEW_REQUIRED: 'bg-yellow-900/60 border-yellow-700 text-yellow-300',
+    DRAFT: 'bg-gray-700 border-gray-600 text-gray-300',
+};
+
+const reviewState = (item: Item): Exclude<ReviewFilter, ''> | null => item.draft ? 'DRAFT' : item.review_decision ?? null;
+
+// Light label colours need dark text to stay readable
+const labelTextColor = (hex: string): string => {
+    const value = parseInt(hex, 16);
+    const luminance = (0.299 * ((value >> 16) & 0xff) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff)) / 255;
+    return luminance > 0.6 ? '#111827' : '#f9fafb';
+};
+
+const IssueList: React.FC<IssueListProps> = ({ repo, kind, reloadKey }) => {
+    const { t, i18n } = useTranslation();
+    const [items, setItems] = useState<Item[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+    const [query, setQuery] = useState('');
+    const [label, setLabel] = useState('');
+    const [assignee, setAssignee] = useState('');
+    const [review, setReview] = useState<ReviewFilter>('');
+    const [sort, setSort] = useState<SortOrder>('newest');
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        setLoading(true);
+        setItems([]);
+        setLabel('');
+        setAssignee('');
+        setReview('');
+    }, [repo, kind]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const owner = repo.owner.login;
+        const load = async () => {
+            setError('');
+            try {
+                const collected: Item[] = [];
+                const onPage = (page: Item[]) => {
+                    collected.push(...page);
+                    if (!cancelled) setItems([...collected]);
+                };
+                const all: Item[] = kind === 'pulls'
+                    ? await fetchOpenPullRequests(owner, repo.name, onPage)
+                    : await fetchOpenIssues(owner, repo.name, onPage);
+                const age = await (kind === 'pulls' ? getPullRequestsFetchedAt(owner, repo.name) : getIssuesFetchedAt(owner, repo.name));
+                if (cancelled) return;
+                setItems(all);
+                setFetchedAt(age);
+            } catch (err) {
+                console.error(`Failed to load ${kind} for ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('issues.error'));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [repo, kind, reloadKey, cacheRevision, t]);
+
+    const labels = useMemo(() => Array.from(new Set(items.flatMap(item => item.labels.map(l => l.name)))).sort(), [items]);
+    const assignees = useMemo(() => Array.from(new Set(items.flatMap(item => item.assignees))).sort(), [items]);
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const filtered = items.filter(item => {
+            if (needle && !item.title.toLowerCase().includes(needle) && !`#${item.number}`.includes(needle)
+                && !(item.author ?? '').toLowerCase().includes(needle)) return false;
+            if (label && !item.labels.some(l => l.name === label)) return false;
+            if (assignee === UNASSIGNED ? item.assignees.length > 0 : assignee && !item.assignees.includes(assignee)) return false;
+            if (review && reviewState(item) !== review) return false;
+            return true;
+        });
+        const time = (item: Item) => Date.parse(sort === 'updated' ? item.updated_at : item.created_at);
+        return filtered.sort((a, b) => sort === 'oldest' ? time(a) - time(b) : time(b) - time(a));
+    }, [items, query, label, assignee, review, sort]);
+
+    const selectClass = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <input
+                    type="text"
+                    value={query}
+                    placeholder={t('issues.search')}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className={`flex-1 min-w-[12rem] ${selectClass}`}
+                />
+                <select value={label} onChange={(e) => setLabel(e.target.value)} className={selectClass}>
+                    <option value="">{t('issues.anyLabel')}</option>
+                    {labels.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <select value={assignee} onChange={(e) => setAssignee(e.target.value)} className={selectClass}>
+                    <option value="">{t('issues.anyAssignee')}</option>
+                    <option value={UNASSIGNED}>{t('issues.unassigned')}</option>
+                    {assignees.map(login => <option key={login} value={login}>@{login}</option>)}
+                </select>
+                {kind === 'pulls' && (
+                    <select value={review} onChange={(e) => setReview(e.target.value as ReviewFilter)} className={selectClass}>
+                        <option value="">{t('issues.anyReview')}</option>
+                        {(Object.keys(REVIEW_STYLES) as Array<keyof typeof REVIEW_STYLES>).map(state => (
+                            <option key={state} value={state}>{t(`issues.review.${state}`)}</option>
+                        ))}
+                    </select>
+                )}
+                <select value={sort} onChange={(e) => setSort(e.target.value as SortOrder)} className={selectClass}>
+                    <option value="newest">{t('issues.sort.newest')}</option>
+                    <option value="oldest">{t('issues.sort.oldest')}</option>
+                    <option value="updated">{t('issues.sort.updated')}</option>
+                </select>
+            </div>
+            <div className="flex items-center justify-between mb-3 text-sm text-gray-400">
+                <span>{t('issues.showing', { shown: visible.length, total: items.length })}</span>
+                <DataAge fetchedAt={fetchedAt} />
+            </div>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center mb-4" role="alert">{error}</div>
+            )}
+
+            {loading && items.length === 0 ? (
+                <div className="flex justify-center py-12"><LoadingSpinner /></div>
+            ) : visible.length === 0 ? (
+                !error && <p className="text-gray-500 pl-2">{t(kind === 'pulls' ? 'issues.noPulls' : 'issues.noIssues')}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {visible.map(item => {
+                        const state = reviewState(item);
+                        return (
+                            <li key={item.number} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+                                <div className="flex items-start justify-between gap-4">
+                                    <a href={item.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-100 font-medium hover:text-cyan-400 hover:underline">
+                                        <span className="text-gray-500 mr-2">#{item.number}</span>{item.title}
+                                    </a>
+                                    {kind === 'pulls' && state && (
+                                        <span className={`flex-shrink-0 px-2 py-0.5 border rounded-full text-xs ${REVIEW_STYLES[state]}`}>{t(`issues.review.${state}`)}</span>
+                                    )}
+                                </div>
+                                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                                    {item.labels.map(l => (
+                                        <span key={l.name} className="px-2 py-0.5 rounded-full" style={{ backgroundColor: `#${l.color}`, color: labelTextColor(l.color) }}>{l.name}</span>
+                                    ))}
+                                    <span title={new Date(item.created_at).toLocaleString()}>
+                                        {t('issues.opened', {
+                                            age: formatElapsed(Math.max(0, Date.now() - Date.parse(item.created_at)), i18n.language) ?? t('dataAge.justNow'),
+                                            author: item.author ?? 'ghost',
+                                        })}
+                                    </span>
+                                    {item.head_ref && <span className="font-mono text-gray-500">{item.head_ref}</span>}
+                                    {item.assignees.length > 0 && (
+                                        <span>{t('issues.assignedTo', { logins: item.assignees.map(login => `@${login}`).join(', ') })}</span>
+                                    )}
+                                    {item.comments > 0 && <span>{t('issues.comments', { count: item.comments })}</span>}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default IssueList;
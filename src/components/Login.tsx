@@ -1,22 +1,131 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { DeviceFlowPrompt, GitHubAccount, TokenValidation } from '../types';
+import { addAccount, validateToken, getMissingScopes } from '../services/authService';
+import { useConnectivity } from '../hooks/useConnectivity';
 
 interface LoginProps {
-    onLoginSuccess: (token: string) => void;
+    // Called once the verified account has been saved and made active
+    onLoginSuccess: () => void;
+    // Offered when adding an account while another one is signed in
+    onCancel?: () => void;
     error: string | null;
 }
 
-const Login: React.FC<LoginProps> = ({ onLoginSuccess, error }) => {
+// Web address typed for a GHES instance, for the token settings link; the main process derives the API endpoints
+const toWebUrl = (serverUrl: string): string => {
+    const trimmed = serverUrl.trim().replace(/\/+$/, '').replace(/\/api(\/v3)?$/, '');
+    if (!trimmed) return 'https://github.com';
+    return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// A token GitHub accepted, waiting for the user to confirm the account. The main process holds the
+// token and the account it resolved under `validationId`.
+type VerifiedLogin = {
+    account: GitHubAccount;
+    scopes: string[] | null;
+    validationId: string;
+};
+
+const Login: React.FC<LoginProps> = ({ onLoginSuccess, onCancel, error }) => {
     const { t } = useTranslation();
+    const { offline } = useConnectivity();
     const [token, setToken] = useState('');
+    // Empty for github.com
+    const [serverUrl, setServerUrl] = useState('');
+    const [useEnterprise, setUseEnterprise] = useState(false);
+    const [deviceFlowAvailable, setDeviceFlowAvailable] = useState(false);
+    const [devicePrompt, setDevicePrompt] = useState<DeviceFlowPrompt | null>(null);
+    const [verifying, setVerifying] = useState(false);
+    const [verified, setVerified] = useState<VerifiedLogin | null>(null);
+    const [label, setLabel] = useState('');
+    const [loginError, setLoginError] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electronAPI.isDeviceFlowAvailable()
+            .then(setDeviceFlowAvailable)
+            .catch(() => setDeviceFlowAvailable(false));
+        // Abandon a pending sign-in when the login screen goes away
+        return () => { window.electronAPI.cancelDeviceFlow().catch(() => {}); };
+    }, []);
+
+    const describeFailure = (validation: Exclude<TokenValidation, { ok: true }>): string => {
+        return t(`login.errors.${validation.reason}`, { message: validation.message });
+    };
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (token.trim()) {
-            onLoginSuccess(token.trim());
+        if (!token.trim()) return;
+        setLoginError(null);
+        setVerifying(true);
+        try {
+            const validation = await validateToken(token.trim(), useEnterprise ? serverUrl : undefined);
+            if (validation.ok) {
+                setVerified({ account: validation.account, scopes: validation.scopes, validationId: validation.validationId });
+                setLabel(validation.account.login);
+            } else {
+                setLoginError(describeFailure(validation));
+            }
+        } catch (err) {
+            setLoginError(t('login.errors.network', { message: err instanceof Error ? err.message : String(err) }));
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleDeviceSignIn = async () => {
+        setLoginError(null);
+        try {
+            const prompt = await window.electronAPI.startDeviceFlow();
+            setDevicePrompt(prompt);
+            const result = await window.electronAPI.pollDeviceFlow();
+            setDevicePrompt(null);
+            if (result.status === 'authorized') {
+                setVerifying(true);
+                const validation = await validateToken();
+                if (validation.ok) {
+                    setVerified({ account: validation.account, scopes: validation.scopes, validationId: validation.validationId });
+                    setLabel(validation.account.login);
+                } else {
+                    await window.electronAPI.cancelDeviceFlow();
+                    setLoginError(describeFailure(validation));
+                }
+            } else if (result.status === 'error') {
+                setLoginError(t('login.deviceFlow.failed', { message: result.message }));
+            } else if (result.status !== 'cancelled') {
+                setLoginError(t(`login.deviceFlow.${result.status}`));
+            }
+        } catch (err) {
+            setDevicePrompt(null);
+            setLoginError(t('login.deviceFlow.failed', { message: err instanceof Error ? err.message : String(err) }));
+        } finally {
+            setVerifying(false);
         }
     };
 
+    const handleDeviceCancel = () => {
+        window.electronAPI.cancelDeviceFlow().catch(() => {});
+        setDevicePrompt(null);
+    };
+
+    const handleConfirm = async () => {
+        if (!verified) return;
+        try {
+            await addAccount(verified.validationId, label);
+            onLoginSuccess();
+        } catch (err) {
+            setLoginError(t('login.errors.storage', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    };
+
+    const handleUseAnother = () => {
+        // Drops the validated token the main process holds
+        window.electronAPI.cancelDeviceFlow().catch(() => {});
+        setVerified(null);
+    };
+
+    const missingScopes = verified?.scopes ? getMissingScopes(verified.scopes) : [];
+
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 flex items-center justify-center p-4">
             <div className="w-full max-w-md p-8 space-y-8 bg-gray-800 rounded-2xl shadow-2xl border border-gray-700">
@@ -32,6 +141,117 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess, error }) => {
                         <span className="block sm:inline">{t('login.error')}</span>
                     </div>
                 )}
+                {offline && !verified && (
+                    <div className="bg-gray-900/60 border border-gray-600 text-gray-300 px-4 py-3 rounded-lg text-center text-sm" role="status">
+                        {t('offline.login')}
+                    </div>
+                )}
+                {loginError && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center" role="alert">
+                        <span className="block sm:inline">{loginError}</span>
+                    </div>
+                )}
+                {verified ? (
+                    <div className="space-y-6">
+                        <div className="flex items-center gap-4 p-4 bg-gray-900/60 border border-gray-700 rounded-lg">
+                            <img src={verified.account.avatarUrl} alt="" className="w-14 h-14 rounded-full" />
+                            <div className="min-w-0">
+                                <p className="text-lg font-bold text-gray-100 truncate">{verified.account.name || verified.account.login}</p>
+                                <p className="text-sm text-gray-400 truncate">@{verified.account.login}</p>
+                                {verified.account.server.version !== null && (
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {t('login.enterprise.detected', { host: new URL(verified.account.server.webUrl).host, version: verified.account.server.version })}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="account-label" className="block text-sm font-medium text-gray-300">{t('accounts.label')}</label>
+                            <input
+                                id="account-label"
+                                type="text"
+                                value={label}
+                                onChange={(e) => setLabel(e.target.value)}
+                                placeholder={verified.account.login}
+                                className="mt-1 w-full px-3 py-2 text-gray-100 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">{t('accounts.labelHelp')}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-gray-300 mb-2">{t('login.scopes.title')}</p>
+                            {verified.scopes === null ? (
+                                <p className="text-xs text-gray-400">{t('login.scopes.notReported')}</p>
+                            ) : verified.scopes.length === 0 ? (
+                                <p className="text-xs text-gray-400">{t('login.scopes.none')}</p>
+                            ) : (
+                                <div className="flex flex-wrap gap-2">
+                                    {verified.scopes.map(scope => (
+                                        <code key={scope} className="bg-gray-700 px-2 py-0.5 rounded-md text-xs text-gray-300">{scope}</code>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        {missingScopes.length > 0 && (
+                            <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg text-sm" role="status">
+                                {t('login.scopes.missing', { scopes: missingScopes.join(', ') })}
+                            </div>
+                        )}
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={handleUseAnother}
+                                className="flex-1 py-3 px-4 rounded-md text-sm font-bold text-gray-100 bg-gray-700 hover:bg-gray-600 transition-colors"
+                            >
+                                {t('login.useAnother')}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                className="flex-1 py-3 px-4 rounded-md shadow-sm text-sm font-bold text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 transition-all duration-300"
+                            >
+                                {t('login.continue')}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                <>
+                {deviceFlowAvailable && !useEnterprise && (
+                    devicePrompt ? (
+                        <div className="p-4 bg-gray-900/60 border border-gray-700 rounded-lg text-center space-y-3">
+                            <p className="text-sm text-gray-300">{t('login.deviceFlow.instructions')}</p>
+                            <p className="text-3xl font-mono font-bold tracking-widest text-cyan-400 select-all">{devicePrompt.userCode}</p>
+                            <div className="flex justify-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => navigator.clipboard.writeText(devicePrompt.userCode)}
+                                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+                                >{t('login.deviceFlow.copy')}</button>
+                                <a
+                                    href={devicePrompt.verificationUri}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded text-sm text-white"
+                                >{t('login.deviceFlow.open')}</a>
+                            </div>
+                            <p className="text-xs text-gray-500">{t('login.deviceFlow.waiting', { minutes: Math.ceil(devicePrompt.expiresIn / 60) })}</p>
+                            <button type="button" onClick={handleDeviceCancel} className="text-xs text-gray-400 hover:text-gray-200 underline">
+                                {t('settings.cancel')}
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <button
+                                type="button"
+                                onClick={handleDeviceSignIn}
+                                disabled={offline}
+                                className="w-full flex justify-center py-3 px-4 rounded-md shadow-sm text-sm font-bold text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 transition-all duration-300"
+                            >
+                                {t('login.deviceFlow.button')}
+                            </button>
+                            <p className="text-center text-xs text-gray-500">{t('login.deviceFlow.or')}</p>
+                        </div>
+                    )
+                )}
                 <form className="space-y-6" onSubmit={handleSubmit}>
                     <div>
                         <label htmlFor="token" className="block text-sm font-medium text-gray-300">
@@ -50,6 +270,28 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess, error }) => {
                                 aria-describedby={error ? "error-message" : undefined}
                             />
                         </div>
+                    </div>
+                    <div>
+                        <label className="flex items-center text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={useEnterprise}
+                                onChange={(e) => setUseEnterprise(e.target.checked)}
+                                className="mr-2"
+                            />
+                            {t('login.enterprise.toggle')}
+                        </label>
+                        {useEnterprise && (
+                            <input
+                                type="text"
+                                required
+                                value={serverUrl}
+                                onChange={(e) => setServerUrl(e.target.value)}
+                                placeholder="https://github.example.com"
+                                aria-label={t('login.enterprise.url')}
+                                className="mt-2 w-full px-3 py-2 text-gray-100 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            />
+                        )}
                     </div>
                      <div className="text-xs text-gray-500 text-center space-y-3">
                         <p>
@@ -57,7 +299,7 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess, error }) => {
                             <br />
                             <br />
                             <a 
-                                href="https://github.com/settings/tokens/new?scopes=repo:status,public_repo&description=DP-Plugins%20Viewer" 
+                                href={`${toWebUrl(useEnterprise ? serverUrl : '')}/settings/tokens/new?scopes=repo:status,public_repo&description=DP-Plugins%20Viewer`}
                                 target="_blank" 
                                 rel="noopener noreferrer"
                                 className="font-bold text-sm text-cyan-400 hover:text-cyan-300 ml-1"
@@ -73,12 +315,20 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess, error }) => {
                     <div>
                         <button
                             type="submit"
-                            className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-bold text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 transition-all duration-300"
+                            disabled={verifying || offline}
+                            className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-bold text-white bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 transition-all duration-300"
                         >
-                            {t('login.loginButton')}
+                            {verifying ? t('login.verifying') : t('login.loginButton')}
                         </button>
                     </div>
                 </form>
+                {onCancel && (
+                    <button type="button" onClick={onCancel} className="w-full text-sm text-gray-400 hover:text-gray-200 underline">
+                        {t('settings.cancel')}
+                    </button>
+                )}
+                </>
+                )}
             </div>
         </div>
     );
@@ -1,10 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GitHubRepo, GitHubCommit, GitHubRelease } from '../types';
-import { fetchLatestCommit, fetchLatestRelease } from '../services/githubService';
-import { CommitIcon, TagIcon, DownloadIcon, CalendarIcon } from './Icons';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { GitHubRepo, GitHubCommit, GitHubRelease, RepoSummary, BuildStatus } from '../types';
+import { fetchLatestCommit, fetchLatestRelease, fetchLatestWorkflowRun, getBuildStatus, invalidateRepoCache, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { CommitIcon, TagIcon, DownloadIcon, CalendarIcon, RefreshIcon } from './Icons';
+import BuildStatusBadge from './BuildStatusBadge';
+import ReleaseBadges from './ReleaseBadges';
+import { formatBytes } from '../utils/format';
+import { downloadAsset, isChecksumAsset } from '../services/downloadService';
 
 interface ProjectCardProps {
     repo: GitHubRepo;
+    // Batched card data; when absent the card fetches its own over REST
+    summary?: RepoSummary;
+    // True while the batch that may contain `summary` is still loading
+    awaitSummary?: boolean;
     onSelect: (repo: GitHubRepo) => void;
 }
 
@@ -17,6 +27,14 @@ const formatDate = (dateString: string | null): string => {
     });
 };
 
+// Plain text of rendered release notes, for the preview and its tooltip
+const htmlToText = (html: string): string => {
+    const text = new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+    return text.replace(/\s+/g, ' ').trim();
+};
+
+const NOTES_TOOLTIP_LENGTH = 600;
+
 // --- Intersection Observer Hook ---
 const useOnScreen = (options: IntersectionObserverInit) => {
     const ref = useRef<HTMLDivElement>(null);
@@ -47,24 +65,42 @@ const useOnScreen = (options: IntersectionObserverInit) => {
 };
 
 
-const ProjectCard: React.FC<ProjectCardProps> = ({ repo, onSelect }) => {
+const ProjectCard: React.FC<ProjectCardProps> = ({ repo, summary, awaitSummary, onSelect }) => {
     const [latestCommit, setLatestCommit] = useState<GitHubCommit | null>(null);
     const [latestRelease, setLatestRelease] = useState<GitHubRelease | null>(null);
+    const [buildStatus, setBuildStatus] = useState<BuildStatus>(null);
     const [isLoading, setIsLoading] = useState(true);
+    // Set by a manual refresh: the batched summary is shared by every card, so this one refetches its own
+    const [preferRest, setPreferRest] = useState(false);
+    const [refreshing, setRefreshing] = useState(false);
+    const [downloadQueued, setDownloadQueued] = useState(false);
+    const { offline } = useConnectivity();
 
     const [ref, isVisible] = useOnScreen({ rootMargin: '0px 0px -50px 0px' });
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
 
     useEffect(() => {
         const loadDetails = async () => {
-            if (!isVisible || !isLoading) return; // Only fetch if visible and not already loaded/loading
+            if (summary && !preferRest) {
+                setLatestCommit(summary.latestCommit);
+                setLatestRelease(summary.latestRelease);
+                setBuildStatus(summary.buildStatus);
+                setIsLoading(false);
+                return;
+            }
+            if (awaitSummary && !preferRest) return; // Wait for the batch rather than spending REST calls
+            if (!isVisible) return; // Only fetch once visible; later runs re-read data refreshed in the background
 
             try {
-                const [commit, release] = await Promise.all([
+                const [commit, release, run] = await Promise.all([
                     fetchLatestCommit(repo.owner.login, repo.name),
-                    fetchLatestRelease(repo.owner.login, repo.name).catch(() => null)
+                    fetchLatestRelease(repo.owner.login, repo.name).catch(() => null),
+                    // Repos without Actions, or tokens that may not read them, just get no badge
+                    fetchLatestWorkflowRun(repo.owner.login, repo.name, repo.default_branch).catch(() => null)
                 ]);
                 setLatestCommit(commit);
                 setLatestRelease(release);
+                setBuildStatus(getBuildStatus(run));
             } catch (error) {
                 console.error(`Failed to fetch details for ${repo.name}`, error);
             } finally {
@@ -73,12 +109,39 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ repo, onSelect }) => {
         };
 
         loadDetails();
-    }, [isVisible, repo, isLoading]);
+    }, [isVisible, repo, summary, awaitSummary, cacheRevision, preferRest]);
     
-    const firstAsset = latestRelease?.assets?.[0];
+    // Checksum files are only there to verify the actual download
+    const firstAsset = latestRelease?.assets?.find(asset => !isChecksumAsset(asset));
+    const releaseNotes = useMemo(() => latestRelease?.body_html ? htmlToText(latestRelease.body_html) : '', [latestRelease]);
 
     const handleCardClick = () => onSelect(repo);
 
+    const handleRefresh = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setRefreshing(true);
+        try {
+            await invalidateRepoCache(repo.owner.login, repo.name);
+            setIsLoading(true);
+            setPreferRest(true);
+        } catch (error) {
+            console.error(`Failed to refresh ${repo.name}`, error);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const handleDownload = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (!latestRelease || !firstAsset) return;
+        downloadAsset(repo, latestRelease, firstAsset)
+            .then(() => {
+                setDownloadQueued(true);
+                setTimeout(() => setDownloadQueued(false), 2000);
+            })
+            .catch(error => console.error(`Failed to start downloading ${firstAsset.name}`, error));
+    };
+
     const SkeletonLoader = ({ className }: {className?: string}) => (
         <div className={`bg-gray-700/50 animate-pulse rounded-md ${className}`}></div>
     );
@@ -94,10 +157,34 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ repo, onSelect }) => {
             aria-label={`View details for ${repo.name}`}
         >
             <div>
-                <h2 className="text-2xl font-bold mb-2 truncate text-cyan-400">
-                   {repo.name}
-                </h2>
-                <p className="text-gray-400 mb-6 text-sm h-10 overflow-hidden">{repo.description || 'No description available.'}</p>
+                <div className="flex items-start justify-between gap-2 mb-2">
+                    <h2 className="text-2xl font-bold truncate text-cyan-400">
+                       {repo.name}
+                    </h2>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                        <BuildStatusBadge status={buildStatus} />
+                        <button
+                            onClick={handleRefresh}
+                            onKeyDown={(e) => e.stopPropagation()}
+                            disabled={offline || refreshing}
+                            title={offline ? 'Unavailable while offline' : 'Refresh this repository'}
+                            aria-label={`Refresh ${repo.name}`}
+                            className="p-1.5 text-gray-400 hover:text-cyan-400 rounded-md hover:bg-gray-700/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <RefreshIcon className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+                <p className="text-gray-400 mb-2 text-sm h-10 overflow-hidden">{repo.description || 'No description available.'}</p>
+                {/* Open issue and PR counts only come with the batched summary */}
+                <div className="mb-4 h-5 flex gap-4 text-xs text-gray-400">
+                    {summary && (
+                        <>
+                            <span>{summary.openIssues} open {summary.openIssues === 1 ? 'issue' : 'issues'}</span>
+                            <span>{summary.openPullRequests} open {summary.openPullRequests === 1 ? 'pull request' : 'pull requests'}</span>
+                        </>
+                    )}
+                </div>
 
                 {/* Latest Commit Section */}
                 <div className="mb-6">
@@ -125,12 +212,21 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ repo, onSelect }) => {
                     </h3>
                     {isLoading ? <SkeletonLoader className="h-14" /> : latestRelease ? (
                         <div className="bg-gray-900/50 p-3 rounded-md">
-                            <a href={latestRelease.html_url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-teal-400 font-semibold hover:underline truncate block">
-                                {latestRelease.name || latestRelease.tag_name}
-                            </a>
+                            <div className="flex items-center gap-2">
+                                <a href={latestRelease.html_url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-teal-400 font-semibold hover:underline truncate block">
+                                    {latestRelease.name || latestRelease.tag_name}
+                                </a>
+                                <ReleaseBadges release={latestRelease} className="flex-shrink-0" />
+                            </div>
                              <p className="text-xs text-gray-500 mt-1 flex items-center">
                                 <CalendarIcon className="w-3 h-3 mr-1.5"/> Published on {formatDate(latestRelease.published_at)}
                             </p>
+                            {releaseNotes && (
+                                <p
+                                    className="text-xs text-gray-400 mt-2 line-clamp-2"
+                                    title={releaseNotes.length > NOTES_TOOLTIP_LENGTH ? `${releaseNotes.slice(0, NOTES_TOOLTIP_LENGTH)}…` : releaseNotes}
+                                >{releaseNotes}</p>
+                            )}
                         </div>
                     ) : (
                         <p className="text-sm text-gray-500">No releases found.</p>
@@ -140,16 +236,18 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ repo, onSelect }) => {
 
             {/* Download Button */}
              {isLoading ? (firstAsset ? <SkeletonLoader className="h-12 mt-6" /> : null) : firstAsset && (
-                 <a 
-                    href={firstAsset.browser_download_url} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    onClick={(e) => e.stopPropagation()}
-                    className="mt-6 w-full bg-cyan-600 text-white font-bold py-3 px-3 rounded-lg flex items-center justify-center transition-all duration-300 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-opacity-50 text-sm"
+                 <button
+                    onClick={handleDownload}
+                    disabled={offline}
+                    title={offline ? 'Unavailable while offline' : undefined}
+                    className="mt-6 w-full bg-cyan-600 text-white font-bold py-3 px-3 rounded-lg flex items-center justify-center transition-all duration-300 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-opacity-50 text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-cyan-600"
                  >
                     <DownloadIcon className="w-5 h-5 mr-2"/>
-                    {firstAsset.name}
-                </a>
+                    <span className="truncate">{downloadQueued ? 'Added to downloads' : firstAsset.name}</span>
+                    <span className="ml-2 font-normal text-cyan-100/80 whitespace-nowrap">
+                        {formatBytes(firstAsset.size)} · {firstAsset.download_count.toLocaleString()} {firstAsset.download_count === 1 ? 'download' : 'downloads'}
+                    </span>
+                </button>
             )}
         </div>
     );
@@ -1,12 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { GitHubRepo, GitHubRelease } from '../types';
-import { fetchReadmeHtml, fetchAllReleases } from '../services/githubService';
-import { BackIcon, TagIcon, DownloadIcon, CalendarIcon, ExternalLinkIcon } from './Icons';
+import { GitHubRepo, GitHubRelease, GitHubReleaseAsset } from '../types';
+import { OfflineError } from '../services/connectivityService';
+import { fetchReadmeHtml, fetchAllReleases, getRepoDetailsFetchedAt, invalidateRepoCache, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { BackIcon, TagIcon, DownloadIcon, CalendarIcon, ExternalLinkIcon, RefreshIcon } from './Icons';
 import LoadingSpinner from './LoadingSpinner';
+import IssueList from './IssueList';
+import WorkflowRuns from './WorkflowRuns';
+import CommitHistory from './CommitHistory';
+import ReleaseCompare from './ReleaseCompare';
+import ReleaseBadges from './ReleaseBadges';
+import { formatBytes } from '../utils/format';
+import { recordDownloadSnapshots, summarizeDownloads } from '../services/downloadStatsService';
+import { downloadAsset } from '../services/downloadService';
+import DataAge from './DataAge';
 
 interface ProjectDetailProps {
     repo: GitHubRepo;
+    // From the batched summaries; `false` skips the README request entirely
+    hasReadme?: boolean;
     onBack: () => void;
 }
 
@@ -19,22 +33,40 @@ const formatDate = (dateString: string | null): string => {
     });
 };
 
-const ProjectDetail: React.FC<ProjectDetailProps> = ({ repo, onBack }) => {
+const DETAIL_TABS = ['overview', 'commits', 'compare', 'issues', 'pulls', 'actions'] as const;
+
+type DetailTab = typeof DETAIL_TABS[number];
+
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ repo, hasReadme, onBack }) => {
     const { t } = useTranslation();
     const [readme, setReadme] = useState<string | null>(null);
     const [releases, setReleases] = useState<GitHubRelease[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
     const [currentPage, setCurrentPage] = useState(1);
+    const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [refreshing, setRefreshing] = useState(false);
+    const { offline } = useConnectivity();
+    const [tab, setTab] = useState<DetailTab>('overview');
+    const [expandedNotes, setExpandedNotes] = useState<Set<number>>(new Set());
+    // Asset just handed to the download manager, acknowledged for a moment
+    const [queuedAsset, setQueuedAsset] = useState<number | null>(null);
     const itemsPerPage = 3;
 
+    useEffect(() => {
+        setLoading(true);
+        setTab('overview');
+        setExpandedNotes(new Set());
+    }, [repo]);
+
     useEffect(() => {
         const loadData = async () => {
-            setLoading(true);
             setError('');
             try {
                 const [readmeData, releasesData] = await Promise.all([
-                    fetchReadmeHtml(repo.owner.login, repo.name),
+                    hasReadme === false ? Promise.resolve(null) : fetchReadmeHtml(repo.owner.login, repo.name),
                     fetchAllReleases(repo.owner.login, repo.name).catch(err => {
                         console.warn(`Could not fetch releases for ${repo.name}, treating as empty. Error:`, err);
                         return []; // Gracefully handle no releases (e.g., 404)
@@ -42,15 +74,45 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ repo, onBack }) => {
                 ]);
                 setReadme(readmeData);
                 setReleases(releasesData);
+                recordDownloadSnapshots([summarizeDownloads(repo, releasesData)]);
+                setFetchedAt(await getRepoDetailsFetchedAt(repo.owner.login, repo.name));
             } catch (err) {
                 console.error("A critical error occurred while fetching project details:", err);
-                setError('Failed to load project details. Please try again later.');
+                setError(err instanceof OfflineError ? t('offline.noSnapshot') : 'Failed to load project details. Please try again later.');
             } finally {
                 setLoading(false);
             }
         };
         loadData();
-    }, [repo]);
+    }, [repo, hasReadme, cacheRevision, reloadKey, t]);
+
+    const toggleNotes = (id: number) => setExpandedNotes(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handleDownload = (release: GitHubRelease, asset: GitHubReleaseAsset) => {
+        downloadAsset(repo, release, asset)
+            .then(() => {
+                setQueuedAsset(asset.id);
+                setTimeout(() => setQueuedAsset(current => current === asset.id ? null : current), 2000);
+            })
+            .catch(err => console.error(`Failed to start downloading ${asset.name}`, err));
+    };
+
+    // Expired entries are served once more while fresh copies are fetched; their arrival re-runs the load
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await invalidateRepoCache(repo.owner.login, repo.name);
+            setReloadKey(key => key + 1);
+        } catch (err) {
+            console.error(`Failed to refresh ${repo.name}`, err);
+        } finally {
+            setRefreshing(false);
+        }
+    };
 
     return (
         <div className="animate-fade-in">
@@ -65,34 +127,67 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ repo, onBack }) => {
             <header className="mb-8 p-6 bg-gray-800 border border-gray-700 rounded-lg">
                 <div className="flex items-center justify-between">
                      <h1 className="text-3xl md:text-4xl font-extrabold text-cyan-400">{repo.name}</h1>
-                     <a href={repo.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 transition-colors" aria-label="View on GitHub">
-                         <ExternalLinkIcon className="w-7 h-7" />
-                     </a>
+                     <div className="flex items-center gap-3">
+                         <button
+                             onClick={handleRefresh}
+                             disabled={offline || refreshing}
+                             title={offline ? t('offline.unavailable') : t('cacheInspector.refreshRepo')}
+                             aria-label={t('cacheInspector.refreshRepo')}
+                             className="text-gray-400 hover:text-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                         >
+                             <RefreshIcon className={`w-6 h-6 ${refreshing ? 'animate-spin' : ''}`} />
+                         </button>
+                         <a href={repo.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 transition-colors" aria-label="View on GitHub">
+                             <ExternalLinkIcon className="w-7 h-7" />
+                         </a>
+                     </div>
                 </div>
                 <p className="text-gray-400 mt-2 text-lg">{repo.description || 'No description available.'}</p>
+                <DataAge fetchedAt={fetchedAt} className="block mt-2" />
             </header>
 
-            {loading && (
+            <nav className="flex gap-2 mb-8">
+                {DETAIL_TABS.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => setTab(id)}
+                        className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${tab === id ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    >{t(`projectDetail.tabs.${id}`)}</button>
+                ))}
+            </nav>
+
+            {tab === 'commits' && <CommitHistory repo={repo} reloadKey={reloadKey} />}
+            {tab === 'compare' && <ReleaseCompare repo={repo} reloadKey={reloadKey} />}
+            {tab === 'issues' && <IssueList repo={repo} kind="issues" reloadKey={reloadKey} />}
+            {tab === 'pulls' && <IssueList repo={repo} kind="pulls" reloadKey={reloadKey} />}
+            {tab === 'actions' && <WorkflowRuns repo={repo} reloadKey={reloadKey} />}
+
+            {tab === 'overview' && loading && (
                  <div className="flex flex-col items-center justify-center h-64">
                     <LoadingSpinner />
                     <p className="mt-4 text-lg text-gray-300">Loading details...</p>
                 </div>
             )}
             
-            {error && (
+            {tab === 'overview' && error && (
                 <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center" role="alert">
                     <strong className="font-bold">Error: </strong>
                     <span className="block sm:inline">{error}</span>
                 </div>
             )}
 
-            {!loading && !error && (
+            {tab === 'overview' && !loading && !error && (
                 <div className="space-y-12">
                     {/* All Releases Section */}
                     <section>
                         <h2 className="text-2xl font-bold mb-4 text-gray-200 border-b-2 border-gray-700 pb-2 flex items-center">
                            <TagIcon className="w-6 h-6 mr-3 text-gray-400"/>
                            All Releases
+                           {releases.length > 0 && (
+                               <span className="ml-auto text-sm font-normal text-gray-400">
+                                   {t('downloads.total', { total: summarizeDownloads(repo, releases).total.toLocaleString() })}
+                               </span>
+                           )}
                         </h2>
                         <div className="space-y-6">
                            {releases.length > 0 ? (
@@ -104,22 +199,43 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ repo, onBack }) => {
                                             {displayedReleases.map(release => (
                                                 <div key={release.id} className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
                                                     <div className="flex justify-between items-start">
-                                                        <a href={release.html_url} target="_blank" rel="noopener noreferrer" className="text-xl font-bold text-teal-400 hover:underline">
-                                                            {release.name || release.tag_name}
-                                                        </a>
+                                                        <div className="flex items-center gap-3 min-w-0">
+                                                            <a href={release.html_url} target="_blank" rel="noopener noreferrer" className="text-xl font-bold text-teal-400 hover:underline">
+                                                                {release.name || release.tag_name}
+                                                            </a>
+                                                            <ReleaseBadges release={release} />
+                                                        </div>
                                                         <span className="text-sm text-gray-500 flex items-center flex-shrink-0 ml-4">
                                                             <CalendarIcon className="w-4 h-4 mr-1.5" />
                                                             {formatDate(release.published_at)}
                                                         </span>
                                                     </div>
+                                                    {release.body_html && (
+                                                        <div className="mt-3">
+                                                            <button
+                                                                onClick={() => toggleNotes(release.id)}
+                                                                aria-expanded={expandedNotes.has(release.id)}
+                                                                className="text-sm text-gray-400 hover:text-cyan-400 transition-colors"
+                                                            >
+                                                                {expandedNotes.has(release.id) ? t('releases.hideNotes') : t('releases.showNotes')}
+                                                            </button>
+                                                            {expandedNotes.has(release.id) && (
+                                                                <div className="markdown-body mt-3 p-4 bg-gray-900/40 rounded-md" dangerouslySetInnerHTML={{ __html: release.body_html }} />
+                                                            )}
+                                                        </div>
+                                                    )}
                                                     {release.assets.length > 0 && (
                                                         <ul className="mt-4 space-y-2">
                                                             {release.assets.map(asset => (
                                                                 <li key={asset.id}>
-                                                                    <a href={asset.browser_download_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-cyan-500 bg-gray-900/60 hover:bg-gray-700/60 transition-colors py-2 px-3 rounded-md text-sm">
+                                                                    <button onClick={() => handleDownload(release, asset)} disabled={offline} title={offline ? t('offline.unavailable') : undefined} className="inline-flex items-center text-cyan-500 bg-gray-900/60 hover:bg-gray-700/60 transition-colors py-2 px-3 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed">
                                                                        <DownloadIcon className="w-4 h-4 mr-2" />
                                                                        {asset.name}
-                                                                    </a>
+                                                                       <span className="ml-3 text-xs text-gray-500">
+                                                                           {queuedAsset === asset.id && `${t('downloadManager.queued')} · `}
+                                                                           {formatBytes(asset.size)} · {t('downloads.count', { count: asset.download_count, formatted: asset.download_count.toLocaleString() })}
+                                                                       </span>
+                                                                    </button>
                                                                 </li>
                                                             ))}
                                                         </ul>
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getRateLimit, RateLimitState, GITHUB_RATE_LIMIT_EVENT } from '../services/githubService';
+
+const RateLimitBadge: React.FC = () => {
+    const { t } = useTranslation();
+    const [rateLimit, setRateLimit] = useState<RateLimitState | null>(getRateLimit);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const onUpdate = (e: Event) => setRateLimit((e as CustomEvent<RateLimitState | null>).detail);
+        window.addEventListener(GITHUB_RATE_LIMIT_EVENT, onUpdate);
+        // Keep the reset countdown moving between requests
+        const intervalId = setInterval(() => setNow(Date.now()), 30 * 1000);
+        return () => {
+            window.removeEventListener(GITHUB_RATE_LIMIT_EVENT, onUpdate);
+            clearInterval(intervalId);
+        };
+    }, []);
+
+    if (!rateLimit) return null;
+
+    // Once the window has reset the last known numbers are meaningless; show the full quota until the next response
+    const windowReset = rateLimit.reset <= now;
+    const remaining = windowReset ? rateLimit.limit : rateLimit.remaining;
+    const ratio = rateLimit.limit > 0 ? remaining / rateLimit.limit : 0;
+    const color = ratio > 0.2
+        ? 'bg-emerald-900/50 border-emerald-700 text-emerald-300'
+        : ratio > 0.05
+            ? 'bg-yellow-900/50 border-yellow-700 text-yellow-300'
+            : 'bg-red-900/50 border-red-700 text-red-300';
+    const minutesToReset = Math.max(0, Math.ceil((rateLimit.reset - now) / 60000));
+
+    return (
+        <span
+            className={`px-3 py-1 rounded-full border text-xs font-medium ${color}`}
+            title={t('rateLimit.resetsAt', { time: new Date(rateLimit.reset).toLocaleTimeString() })}
+        >
+            {t('rateLimit.badge', { remaining: remaining.toLocaleString(), limit: rateLimit.limit.toLocaleString() })}
+            {!windowReset && <span className="ml-1 opacity-75">· {t('rateLimit.resetsIn', { minutes: minutesToReset })}</span>}
+        </span>
+    );
+};
+
+export default RateLimitBadge;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubRelease } from '../types';
+
+interface ReleaseBadgesProps {
+    release: Pick<GitHubRelease, 'draft' | 'prerelease'>;
+    className?: string;
+}
+
+// Draft and pre-release markers; renders nothing for a regular release
+const ReleaseBadges: React.FC<ReleaseBadgesProps> = ({ release, className }) => {
+    const { t } = useTranslation();
+    if (!release.draft && !release.prerelease) return null;
+
+    return (
+        <span className={`inline-flex gap-1 ${className || ''}`}>
+            {release.draft && (
+                <span className="px-2 py-0.5 border rounded-full text-xs bg-gray-700/60 border-gray-600 text-gray-300">{t('releases.draft')}</span>
+            )}
+            {release.prerelease && (
+                <span className="px-2 py-0.5 border rounded-full text-xs bg-orange-900/50 border-orange-700 text-orange-300">{t('releases.prerelease')}</span>
+            )}
+        </span>
+    );
+};
+
+export default ReleaseBadges;
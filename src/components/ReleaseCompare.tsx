@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubRelease, GitHubRepo } from '../types';
+import { OfflineError } from '../services/connectivityService';
+import { fetchAllReleases, fetchComparison, fetchPullRequestsByNumber, getCompareUrl, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { buildChangelog, changelogToMarkdown, referencedPullRequest, Changelog } from '../services/changelogService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+import { DownloadIcon, ExternalLinkIcon } from './Icons';
+
+interface ReleaseCompareProps {
+    repo: GitHubRepo;
+    // Bumped by the parent to re-read after the repository's cache was invalidated
+    reloadKey: number;
+}
+
+const ReleaseCompare: React.FC<ReleaseCompareProps> = ({ repo, reloadKey }) => {
+    const { t } = useTranslation();
+    const [releases, setReleases] = useState<GitHubRelease[] | null>(null);
+    const [base, setBase] = useState('');
+    const [head, setHead] = useState('');
+    const [changelog, setChangelog] = useState<Changelog | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [copied, setCopied] = useState(false);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        let cancelled = false;
+        setBase('');
+        setHead('');
+        setChangelog(null);
+        setReleases(null);
+        setError('');
+        fetchAllReleases(repo.owner.login, repo.name)
+            .then(data => {
+                if (cancelled) return;
+                setReleases(data);
+                // Upgrading from the previous release to the latest one is the usual question
+                if (data.length >= 2) {
+                    setHead(data[0].tag_name);
+                    setBase(data[1].tag_name);
+                }
+            })
+            .catch(err => {
+                console.error(`Failed to load releases of ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('compare.releasesError'));
+            });
+        return () => { cancelled = true; };
+    }, [repo, reloadKey, t]);
+
+    useEffect(() => {
+        if (!base || !head || base === head) {
+            setChangelog(null);
+            return;
+        }
+        let cancelled = false;
+        const load = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const owner = repo.owner.login;
+                const commits = await fetchComparison(owner, repo.name, base, head);
+                const numbers = Array.from(new Set(commits
+                    .map(commit => referencedPullRequest(commit.commit.message))
+                    .filter((n): n is number => n !== null)))
+                    .sort((a, b) => a - b);
+                // Without pull request titles the commits still make a changelog
+                const pulls = await fetchPullRequestsByNumber(owner, repo.name, numbers).catch(err => {
+                    console.warn(`Could not look up the pull requests between ${base} and ${head}`, err);
+                    return {};
+                });
+                if (!cancelled) setChangelog(buildChangelog(commits, pulls));
+            } catch (err) {
+                console.error(`Failed to compare ${base}...${head} in ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('compare.error'));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [repo, base, head, cacheRevision, t]);
+
+    const compareUrl = getCompareUrl(repo.owner.login, repo.name, base, head);
+    const markdown = useMemo(() => changelog ? changelogToMarkdown(changelog, base, head, compareUrl) : '', [changelog, base, head, compareUrl]);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(markdown);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleSave = () => {
+        const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${repo.name}-${base}...${head}.md`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const selectClass = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+    if (!releases && !error) return <div className="flex justify-center py-12"><LoadingSpinner /></div>;
+
+    const tagOptions = (releases ?? []).map(release => (
+        <option key={release.id} value={release.tag_name}>{release.name && release.name !== release.tag_name ? `${release.tag_name} — ${release.name}` : release.tag_name}</option>
+    ));
+
+    if (releases && releases.length < 2) {
+        return <p className="text-gray-500 pl-2">{t('compare.notEnoughReleases')}</p>;
+    }
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+                <label className="text-sm text-gray-400">{t('compare.base')}</label>
+                <select value={base} onChange={(e) => setBase(e.target.value)} className={selectClass}>{tagOptions}</select>
+                <span className="text-gray-500">…</span>
+                <label className="text-sm text-gray-400">{t('compare.head')}</label>
+                <select value={head} onChange={(e) => setHead(e.target.value)} className={selectClass}>{tagOptions}</select>
+                <button onClick={() => { setBase(head); setHead(base); }} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm">{t('compare.swap')}</button>
+                {changelog && (
+                    <div className="ml-auto flex gap-2">
+                        <button onClick={handleCopy} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm">{copied ? t('compare.copied') : t('compare.copyMarkdown')}</button>
+                        <button onClick={handleSave} className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 rounded text-sm text-white inline-flex items-center">
+                            <DownloadIcon className="w-4 h-4 mr-1.5" />{t('compare.saveMarkdown')}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {base === head && <p className="text-gray-500 pl-2">{t('compare.sameTag')}</p>}
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center mb-4" role="alert">{error}</div>
+            )}
+
+            {loading && !changelog && <div className="flex justify-center py-12"><LoadingSpinner /></div>}
+
+            {changelog && (
+                <div className="space-y-6">
+                    <div className="flex items-center justify-between text-sm text-gray-400">
+                        <span>{t('compare.summary', { count: changelog.commitCount })}</span>
+                        <a href={compareUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center hover:text-cyan-400">
+                            {t('compare.openOnGitHub')}<ExternalLinkIcon className="w-4 h-4 ml-1.5" />
+                        </a>
+                    </div>
+                    {changelog.commitCount === 0 && <p className="text-gray-500 pl-2">{t('compare.noChanges')}</p>}
+                    {[
+                        ...(changelog.breaking.length > 0 ? [{ id: 'breaking', title: t('compare.types.breaking'), entries: changelog.breaking }] : []),
+                        ...changelog.groups.map(group => ({ id: group.type, title: t(`compare.types.${group.type}`), entries: group.entries })),
+                    ].map(section => (
+                        <section key={section.id}>
+                            <h3 className={`font-semibold mb-2 ${section.id === 'breaking' ? 'text-red-400' : 'text-gray-200'}`}>
+                                {section.title} <span className="text-gray-500 text-sm font-normal">({section.entries.length})</span>
+                            </h3>
+                            <ul className="space-y-1 text-sm">
+                                {section.entries.map(entry => (
+                                    <li key={`${section.id}-${entry.sha}`} className="flex items-baseline gap-2">
+                                        <span className="text-gray-600">•</span>
+                                        <span className="text-gray-200">
+                                            {entry.scope && <span className="text-cyan-400 mr-1">{entry.scope}:</span>}
+                                            {entry.subject}
+                                        </span>
+                                        <a
+                                            href={entry.pullRequest?.html_url ?? entry.html_url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-gray-500 hover:text-cyan-400 font-mono text-xs flex-shrink-0"
+                                        >{entry.pullRequest ? `#${entry.pullRequest.number}` : entry.sha.slice(0, 7)}</a>
+                                        {entry.author && <span className="text-gray-500 text-xs flex-shrink-0">@{entry.author}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReleaseCompare;
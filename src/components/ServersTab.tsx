@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubRelease, GitHubRepo, PluginDescription, PluginScan, PluginServer, PluginUpdateRecord } from '../types';
+import { fetchAllReleases, fetchReleaseJarDescription, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import {
+    addPluginServer, checkPluginUpdates, findUpdateAsset, listPluginServers, listPluginUpdates, removePluginServer, rollbackPluginUpdate,
+    scanPluginServer, updatePlugin, PluginStatus, PluginUpdate,
+} from '../services/pluginServerService';
+import { checkCoreRequirement, dependsOnCore, isCorePlugin, CORE_PLUGIN, CoreRequirement } from '../services/dependencyService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import { useConnectivity } from '../hooks/useConnectivity';
+import LoadingSpinner from './LoadingSpinner';
+
+type Props = { repos: GitHubRepo[] };
+
+const SELECTED_SERVER_KEY = 'selectedPluginServer';
+
+const STATUS_STYLES: Record<PluginStatus, string> = {
+    current: 'bg-green-900/50 text-green-300 border-green-700',
+    outdated: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+    unknown: 'bg-gray-700 text-gray-300 border-gray-600',
+};
+
+// Outdated plugins first, then the ones that could not be checked
+const STATUS_ORDER: PluginStatus[] = ['outdated', 'unknown', 'current'];
+
+const ServersTab: React.FC<Props> = ({ repos }) => {
+    const { t } = useTranslation();
+    const [servers, setServers] = useState<PluginServer[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(SELECTED_SERVER_KEY));
+    const [scan, setScan] = useState<PluginScan | null>(null);
+    const [rows, setRows] = useState<PluginUpdate[] | null>(null);
+    const [scanRevision, setScanRevision] = useState(0);
+    const [hideUntracked, setHideUntracked] = useState(false);
+    const [error, setError] = useState('');
+    const [history, setHistory] = useState<PluginUpdateRecord[]>([]);
+    // Jar file or update id being worked on; one at a time
+    const [busy, setBusy] = useState<string | null>(null);
+    const [actionMessage, setActionMessage] = useState<{ text: string; failed: boolean } | null>(null);
+    const [coreReleases, setCoreReleases] = useState<GitHubRelease[]>([]);
+    // Descriptors of the jars outdated plugins would be updated to, by installed jar file
+    const [releaseDescriptions, setReleaseDescriptions] = useState<Record<string, PluginDescription | null>>({});
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+    const { offline } = useConnectivity();
+
+    useEffect(() => {
+        listPluginServers()
+            .then(setServers)
+            .catch(err => {
+                console.error('Failed to read the registered servers', err);
+                setServers([]);
+            });
+    }, []);
+
+    const selected = servers?.find(server => server.id === selectedId) ?? servers?.[0] ?? null;
+
+    useEffect(() => {
+        if (!selected) return;
+        let cancelled = false;
+        setScan(null);
+        setRows(null);
+        setError('');
+        setHistory([]);
+        listPluginUpdates(selected.id)
+            .then(records => { if (!cancelled) setHistory(records); })
+            .catch(err => console.error(`Failed to read the update history of ${selected.directory}`, err));
+        scanPluginServer(selected.id)
+            .then(result => { if (!cancelled) setScan(result); })
+            .catch(err => {
+                console.error(`Failed to scan ${selected.directory}`, err);
+                if (!cancelled) setError(t('servers.scanError', { directory: selected.directory }));
+            });
+        return () => { cancelled = true; };
+    }, [selected?.id, scanRevision, t]);
+
+    useEffect(() => {
+        if (!scan) return;
+        let cancelled = false;
+        checkPluginUpdates(scan, repos)
+            .then(result => { if (!cancelled) setRows(result); })
+            .catch(err => {
+                console.error('Failed to compare installed plugins with their releases', err);
+                if (!cancelled) setError(t('servers.compareError'));
+            });
+        return () => { cancelled = true; };
+    }, [scan, repos, cacheRevision, t]);
+
+    useEffect(() => {
+        const core = repos.find(repo => isCorePlugin(repo.name));
+        if (!core) return;
+        let cancelled = false;
+        fetchAllReleases(core.owner.login, core.name)
+            .then(releases => { if (!cancelled) setCoreReleases(releases); })
+            .catch(err => console.warn(`Could not read the releases of ${core.full_name}`, err));
+        return () => { cancelled = true; };
+    }, [repos, cacheRevision]);
+
+    // Only plugins that depend on the core need their incoming jar read, one jar at a time
+    useEffect(() => {
+        const pending = (rows ?? []).filter(row => row.status === 'outdated' && row.repo && row.latest && dependsOnCore(row.plugin.description));
+        if (pending.length === 0) return;
+        let cancelled = false;
+        (async () => {
+            for (const row of pending) {
+                const asset = findUpdateAsset(row.latest!, row.plugin);
+                if (!asset) continue;
+                try {
+                    const description = await fetchReleaseJarDescription(row.repo!.owner.login, row.repo!.name, asset);
+                    if (cancelled) return;
+                    setReleaseDescriptions(current => ({ ...current, [row.plugin.file]: description }));
+                } catch (err) {
+                    console.warn(`Could not read ${asset.name} of ${row.repo!.full_name}`, err);
+                }
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [rows]);
+
+    // The folder is scanned again afterwards, also when an action failed partway
+    // `done` gets the history the action returns, newest record first
+    const runAction = async (key: string, action: () => Promise<PluginUpdateRecord[]>, done: (records: PluginUpdateRecord[]) => string) => {
+        setBusy(key);
+        setActionMessage(null);
+        try {
+            const records = await action();
+            setHistory(records);
+            setActionMessage({ text: done(records), failed: false });
+        } catch (err) {
+            setActionMessage({ text: err instanceof Error ? err.message : String(err), failed: true });
+        } finally {
+            setBusy(null);
+            setScanRevision(revision => revision + 1);
+        }
+    };
+
+    const handleUpdate = (server: PluginServer, row: PluginUpdate, requirement: CoreRequirement | null) => {
+        const name = row.plugin.description?.name ?? row.plugin.file;
+        // An estimated requirement is shown but does not hold the update up
+        if (requirement && !requirement.estimated && !window.confirm(coreWarning(name, requirement) + '\n\n' + t('servers.coreConfirm'))) return;
+        runAction(row.plugin.file, () => updatePlugin(server.id, row), records => records[0]?.checksum === 'unavailable'
+            ? t('servers.updatedUnverified', { plugin: name, tag: row.latest?.tag_name })
+            : t('servers.updated', { plugin: name, tag: row.latest?.tag_name }));
+    };
+
+    const handleRollback = (server: PluginServer, record: PluginUpdateRecord) => {
+        if (!window.confirm(t('servers.rollbackConfirm', { plugin: record.plugin, file: record.oldFile }))) return;
+        runAction(record.id, () => rollbackPluginUpdate(server.id, record.id), () => t('servers.rolledBack', { plugin: record.plugin, file: record.oldFile }));
+    };
+
+    const coreWarning = (plugin: string, requirement: CoreRequirement): string => {
+        const values = { plugin, core: CORE_PLUGIN, required: requirement.version, installed: requirement.installed };
+        if (requirement.estimated) return t(requirement.installed ? 'servers.coreEstimateOutdated' : 'servers.coreEstimateMissing', values);
+        return t(requirement.installed ? 'servers.coreOutdated' : 'servers.coreMissing', values);
+    };
+
+    const select = (id: string) => {
+        setActionMessage(null);
+        setSelectedId(id);
+        localStorage.setItem(SELECTED_SERVER_KEY, id);
+    };
+
+    const handleAdd = async () => {
+        try {
+            const next = await addPluginServer();
+            // The dialog leaves the list as it was when dismissed
+            const added = next.find(server => !servers?.some(existing => existing.id === server.id));
+            setServers(next);
+            if (added) select(added.id);
+        } catch (err) {
+            console.error('Failed to add a server', err);
+        }
+    };
+
+    const handleRemove = async (server: PluginServer) => {
+        if (!window.confirm(t('servers.removeConfirm', { server: server.label }))) return;
+        try {
+            setServers(await removePluginServer(server.id));
+        } catch (err) {
+            console.error(`Failed to remove ${server.directory}`, err);
+        }
+    };
+
+    if (!servers) return <div className="flex justify-center py-12"><LoadingSpinner /></div>;
+
+    const visible = (rows ?? [])
+        .filter(row => !hideUntracked || row.repo)
+        .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+            || (a.plugin.description?.name ?? a.plugin.file).localeCompare(b.plugin.description?.name ?? b.plugin.file));
+    const outdated = (rows ?? []).filter(row => row.status === 'outdated').length;
+    const installedCore = (rows ?? []).find(row => isCorePlugin(row.plugin.description?.name ?? ''))?.plugin.description?.version ?? null;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+                {servers.map(server => (
+                    <div key={server.id} className={`flex items-center rounded-lg text-sm ${server.id === selected?.id ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300'}`}>
+                        <button onClick={() => select(server.id)} className="px-4 py-2" title={server.directory}>{server.label}</button>
+                        <button onClick={() => handleRemove(server)} className="pr-3 pl-1 py-2 opacity-70 hover:opacity-100" aria-label={t('servers.remove', { server: server.label })}>×</button>
+                    </div>
+                ))}
+                <button onClick={handleAdd} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm">{t('servers.add')}</button>
+            </div>
+
+            {servers.length === 0 && <p className="text-gray-500">{t('servers.empty')}</p>}
+
+            {selected && (
+                <section>
+                    <div className="flex flex-wrap items-baseline justify-between gap-4 mb-4">
+                        <div className="min-w-0">
+                            <h2 className="text-xl font-bold text-gray-200">{selected.label}</h2>
+                            <div className="text-xs text-gray-500 font-mono truncate">{selected.directory}</div>
+                        </div>
+                        <div className="flex items-center gap-4 text-sm text-gray-400">
+                            {rows && <span>{t('servers.summary', { count: rows.length, outdated })}</span>}
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={hideUntracked} onChange={(e) => setHideUntracked(e.target.checked)} className="accent-cyan-500" />
+                                {t('servers.hideUntracked')}
+                            </label>
+                            <button onClick={() => setScanRevision(revision => revision + 1)} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm text-gray-100">{t('servers.rescan')}</button>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center mb-4" role="alert">{error}</div>
+                    )}
+
+                    {actionMessage && (
+                        <div className={`text-sm mb-4 ${actionMessage.failed ? 'text-red-400' : 'text-green-400'}`} role={actionMessage.failed ? 'alert' : 'status'}>{actionMessage.text}</div>
+                    )}
+
+                    {!rows && !error && <div className="flex justify-center py-12"><LoadingSpinner /></div>}
+
+                    {rows && rows.length === 0 && <p className="text-gray-500">{t('servers.noPlugins')}</p>}
+
+                    {visible.length > 0 && (
+                        <table className="w-full text-sm">
+                            <thead className="text-gray-400 border-b border-gray-700">
+                                <tr>
+                                    <th className="text-left py-2">{t('servers.plugin')}</th>
+                                    <th className="text-left py-2">{t('servers.installed')}</th>
+                                    <th className="text-left py-2">{t('servers.latest')}</th>
+                                    <th className="text-left py-2">{t('servers.repository')}</th>
+                                    <th className="text-left py-2">{t('servers.status')}</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visible.map(row => {
+                                    const requirement = row.status === 'outdated' ? checkCoreRequirement(row, releaseDescriptions[row.plugin.file] ?? null, installedCore, coreReleases) : null;
+                                    return (
+                                        <tr key={row.plugin.file} className="border-b border-gray-800">
+                                            <td className="py-2">
+                                                <div className="text-gray-200">{row.plugin.description?.name ?? row.plugin.file}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {row.plugin.error ? t('servers.unreadable', { error: row.plugin.error }) : row.plugin.description ? row.plugin.file : t('servers.noDescriptor')}
+                                                </div>
+                                                {requirement && <div className={`text-xs mt-0.5 ${requirement.estimated ? 'text-gray-400' : 'text-yellow-400'}`} role="note">{coreWarning(row.plugin.description?.name ?? row.plugin.file, requirement)}</div>}
+                                            </td>
+                                            <td className="py-2 font-mono text-gray-300">{row.plugin.description?.version ?? '—'}</td>
+                                            <td className="py-2 font-mono">
+                                                {row.latest ? (
+                                                    <a href={row.latest.html_url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">{row.latest.tag_name}</a>
+                                                ) : '—'}
+                                            </td>
+                                            <td className="py-2 text-gray-400">{row.repo?.full_name ?? '—'}</td>
+                                            <td className="py-2">
+                                                <span className={`px-2 py-0.5 rounded-full border text-xs ${STATUS_STYLES[row.status]}`}>{t(`servers.statuses.${row.status}`)}</span>
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                {row.status === 'outdated' && row.latest && (
+                                                    findUpdateAsset(row.latest, row.plugin) ? (
+                                                        <button
+                                                            onClick={() => handleUpdate(selected, row, requirement)}
+                                                            disabled={busy !== null || offline}
+                                                            title={offline ? t('offline.unavailable') : undefined}
+                                                            className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed rounded text-xs text-white"
+                                                        >{busy === row.plugin.file ? t('servers.updating') : t('servers.update')}</button>
+                                                    ) : (
+                                                        <span className="text-xs text-gray-500">{t('servers.noJar')}</span>
+                                                    )
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {scan && <p className="text-xs text-gray-500 mt-4">{t('servers.scannedAt', { time: new Date(scan.scannedAt).toLocaleString() })}</p>}
+
+                    {history.length > 0 && (
+                        <div className="mt-8">
+                            <h3 className="font-semibold text-gray-200 mb-2">{t('servers.history')}</h3>
+                            <ul className="space-y-2 text-sm">
+                                {history.map(record => (
+                                    <li key={record.id} className="flex items-center justify-between gap-4 p-3 bg-gray-800/50 border border-gray-700/50 rounded-lg">
+                                        <div className="min-w-0">
+                                            <div className="text-gray-200">
+                                                {record.plugin} <span className="font-mono text-gray-400">{record.fromVersion ?? '?'} → {record.toVersion ?? record.tag}</span>
+                                                {record.checksum === 'verified' && <span className="ml-2 text-xs text-green-400">{t('downloadManager.checksum.verified')}</span>}
+                                                {record.checksum === 'unavailable' && <span className="ml-2 text-xs text-yellow-400">{t('downloadManager.checksum.unavailable')}</span>}
+                                            </div>
+                                            <div className="text-xs text-gray-500">
+                                                {new Date(record.updatedAt).toLocaleString()}
+                                                {record.rolledBackAt && ` · ${t('servers.rolledBackAt', { time: new Date(record.rolledBackAt).toLocaleString() })}`}
+                                            </div>
+                                            {record.backups.map(backup => (
+                                                <div key={backup.path} className="text-xs text-gray-500 truncate" title={backup.path}>{t('servers.backup', { path: backup.path })}</div>
+                                            ))}
+                                        </div>
+                                        <button
+                                            onClick={() => handleRollback(selected, record)}
+                                            disabled={busy !== null}
+                                            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed rounded text-xs flex-shrink-0"
+                                        >{busy === record.id ? t('servers.rollingBack') : t('servers.rollback')}</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default ServersTab;
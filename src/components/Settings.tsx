@@ -1,17 +1,77 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { DEFAULT_BSTATS_MAPPING } from '../services/bstatsService';
+import { getRepoSources, setRepoSources, validateRepoSource, createRepoSourceId, RepoSource, RepoSourceType } from '../services/sourcesService';
+import { removeAccount, renameAccount } from '../services/authService';
+import { chooseDownloadDirectory, getDownloadDirectory } from '../services/downloadService';
+import { AccountsState } from '../types';
+import { useConnectivity } from '../hooks/useConnectivity';
+import CacheInspector from './CacheInspector';
 
 interface SettingsProps {
   onClose: () => void;
+  accounts: AccountsState;
+  // Closes settings and shows the sign-in screen for another account
+  onAddAccount: () => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ onClose }) => {
+// Pattern lists are edited as comma-separated text and split on save
+type SourceDraft = Omit<RepoSource, 'include' | 'exclude' | 'pinned'> & { include: string; exclude: string; pinned: string };
+
+const toDraft = (source: RepoSource): SourceDraft => ({
+  ...source,
+  include: source.include.join(', '),
+  exclude: source.exclude.join(', '),
+  pinned: source.pinned.join(', '),
+});
+
+const splitList = (text: string): string[] => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const fromDraft = (draft: SourceDraft): RepoSource => ({
+  ...draft,
+  name: draft.name.trim(),
+  include: splitList(draft.include),
+  exclude: splitList(draft.exclude),
+  pinned: splitList(draft.pinned),
+});
+
+const Settings: React.FC<SettingsProps> = ({ onClose, accounts, onAddAccount }) => {
   const { t, i18n } = useTranslation();
+  const { offline } = useConnectivity();
   const [language, setLanguage] = useState(i18n.language);
   const [hardwareAcceleration, setHardwareAcceleration] = useState(true);
   const [bstatsMappingText, setBstatsMappingText] = useState('');
   const [bstatsError, setBstatsError] = useState<string | null>(null);
+  const [sourceDrafts, setSourceDrafts] = useState<SourceDraft[]>(() => getRepoSources().map(toDraft));
+  const [sourcesError, setSourcesError] = useState<string | null>(null);
+  // Account names are saved with the rest; signing out of an account applies right away
+  const [accountLabels, setAccountLabels] = useState<Record<string, string>>(() =>
+    Object.fromEntries(accounts.accounts.map(account => [account.id, account.label])));
+  const [accountsError, setAccountsError] = useState<string | null>(null);
+  // Picked through the system dialog and applied right away
+  const [downloadDirectory, setDownloadDirectory] = useState('');
+
+  const handleRemoveAccount = (id: string) => {
+    setAccountsError(null);
+    removeAccount(id).catch(err => setAccountsError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const updateSource = (id: string, changes: Partial<SourceDraft>) => {
+    setSourceDrafts(prev => prev.map(draft => draft.id === id ? { ...draft, ...changes } : draft));
+    setSourcesError(null);
+  };
+
+  const handleChooseDirectory = () => {
+    chooseDownloadDirectory()
+      .then(setDownloadDirectory)
+      .catch(err => console.error('Failed to change the download folder', err));
+  };
+
+  useEffect(() => {
+    getDownloadDirectory()
+      .then(setDownloadDirectory)
+      .catch(err => console.error('Failed to read the download folder', err));
+  }, []);
 
   useEffect(() => {
     // Load settings from localStorage or default
@@ -35,6 +95,19 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
   }, []);
 
   const handleSave = () => {
+    const sources = sourceDrafts.map(fromDraft);
+    if (sources.length === 0) {
+      setSourcesError(t('sources.empty'));
+      return;
+    }
+    for (const source of sources) {
+      const problem = validateRepoSource(source);
+      if (problem) {
+        setSourcesError(t(`sources.errors.${problem.code}`, { name: problem.name }));
+        return;
+      }
+    }
+
     // Validate bstats JSON
     try {
       const parsed = JSON.parse(bstatsMappingText || '{}');
@@ -57,6 +130,13 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
       return;
     }
 
+    setRepoSources(sources);
+    accounts.accounts
+      .filter(account => account.id in accountLabels && accountLabels[account.id].trim() !== account.label)
+      .forEach(account => {
+        renameAccount(account.id, accountLabels[account.id])
+          .catch(err => console.error(`Failed to rename account ${account.login}`, err));
+      });
     i18n.changeLanguage(language);
     localStorage.setItem('language', language);
     localStorage.setItem('hardwareAcceleration', hardwareAcceleration.toString());
@@ -69,9 +149,45 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-gray-800 p-6 rounded-lg w-full max-w-md">
+      <div className="bg-gray-800 p-6 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-4 text-gray-100">{t('settings.title')}</h2>
 
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2">{t('accounts.title')}</label>
+          <div className="space-y-2">
+            {accounts.accounts.map(account => (
+              <div key={account.id} className="flex items-center gap-3 p-3 bg-gray-700/50 border border-gray-600 rounded-lg">
+                <img src={account.avatarUrl} alt="" className="w-8 h-8 rounded-full" />
+                <input
+                  type="text"
+                  value={accountLabels[account.id] ?? account.label}
+                  placeholder={account.login}
+                  aria-label={t('accounts.label')}
+                  onChange={(e) => setAccountLabels(prev => ({ ...prev, [account.id]: e.target.value }))}
+                  className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <span className="text-sm text-gray-400" title={account.server.version ? `GitHub Enterprise Server ${account.server.version}` : undefined}>
+                  @{account.login} · {new URL(account.server.webUrl).host}
+                </span>
+                {account.id === accounts.activeId && (
+                  <span className="px-2 py-0.5 bg-cyan-900/60 border border-cyan-700 rounded-full text-xs text-cyan-300">{t('accounts.active')}</span>
+                )}
+                <button
+                  onClick={() => handleRemoveAccount(account.id)}
+                  className="px-3 py-1 bg-red-800 hover:bg-red-700 rounded text-sm"
+                >{t('accounts.remove')}</button>
+              </div>
+            ))}
+          </div>
+          {accountsError && <div className="text-red-400 mt-2 text-sm">{accountsError}</div>}
+          <button
+            onClick={onAddAccount}
+            disabled={offline}
+            title={offline ? t('offline.unavailable') : undefined}
+            className="mt-3 px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >{t('accounts.add')}</button>
+        </div>
+
         <div className="mb-4">
           <label className="block text-gray-300 mb-2">{t('settings.language')}</label>
           <select
@@ -112,6 +228,67 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           </div>
         </div>
 
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2">{t('sources.title')}</label>
+          <div className="text-sm text-gray-400 mb-2">{t('sources.help')}</div>
+          <div className="space-y-3">
+            {sourceDrafts.map(draft => (
+              <div key={draft.id} className="p-3 bg-gray-700/50 border border-gray-600 rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={draft.type}
+                    onChange={(e) => updateSource(draft.id, { type: e.target.value as RepoSourceType })}
+                    className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="org">{t('sources.types.org')}</option>
+                    <option value="user">{t('sources.types.user')}</option>
+                    <option value="repo">{t('sources.types.repo')}</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    placeholder={draft.type === 'repo' ? 'owner/repo' : 'login'}
+                    onChange={(e) => updateSource(draft.id, { name: e.target.value })}
+                    className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <button
+                    onClick={() => { setSourceDrafts(prev => prev.filter(d => d.id !== draft.id)); setSourcesError(null); }}
+                    className="px-3 py-1 bg-red-800 hover:bg-red-700 rounded text-sm"
+                  >{t('sources.remove')}</button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['include', 'exclude', 'pinned'] as const).map(field => (
+                    <label key={field} className="text-xs text-gray-400">
+                      {t(`sources.${field}`)}
+                      <input
+                        type="text"
+                        value={draft[field]}
+                        placeholder="DP-*, DPP-Core"
+                        onChange={(e) => updateSource(draft.id, { [field]: e.target.value })}
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.includeArchived}
+                    onChange={(e) => updateSource(draft.id, { includeArchived: e.target.checked })}
+                    className="mr-2"
+                  />
+                  {t('sources.includeArchived')}
+                </label>
+              </div>
+            ))}
+          </div>
+          {sourcesError && <div className="text-red-400 mt-2 text-sm">{sourcesError}</div>}
+          <button
+            onClick={() => setSourceDrafts(prev => [...prev, toDraft({ id: createRepoSourceId(), type: 'org', name: '', include: [], exclude: [], pinned: [], includeArchived: false })])}
+            className="mt-3 px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+          >{t('sources.add')}</button>
+        </div>
+
         <div className="mb-6">
           <label className="block text-gray-300 mb-2">{t('settings.bstatsMappingLabel')}</label>
           <div className="text-sm text-gray-400 mb-2">{t('settings.bstatsMappingHelp')}</div>
@@ -141,6 +318,28 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           </div>
         </div>
 
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2">{t('downloadManager.folder')}</label>
+          <div className="text-sm text-gray-400 mb-2">{t('downloadManager.folderHelp')}</div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={downloadDirectory}
+              readOnly
+              className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 font-mono text-sm"
+            />
+            <button onClick={handleChooseDirectory} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm">
+              {t('downloadManager.changeFolder')}
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2">{t('cacheInspector.title')}</label>
+          <div className="text-sm text-gray-400 mb-2">{t('cacheInspector.help')}</div>
+          <CacheInspector />
+        </div>
+
         <div className="flex justify-end space-x-2">
           <button
             onClick={onClose}
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { GitHubRepo } from '../types';
-import { fetchPluginCharts, fetchChartData } from '../services/bstatsService';
+import { fetchPluginCharts, fetchChartData, BSTATS_CACHE_UPDATED_EVENT } from '../services/bstatsService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
 
 type Props = {
     repo: GitHubRepo;
@@ -155,6 +156,7 @@ const StatsDetail: React.FC<Props> = ({ pluginId, onBack }) => {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [refreshKey, setRefreshKey] = useState(0);
+    const cacheRevision = useCacheRevision(BSTATS_CACHE_UPDATED_EVENT);
     const [pieOpen, setPieOpen] = useState<Record<string, string | null>>({});
 
     // helper to parse various bStats pie payload shapes and handle drilldownData
@@ -351,7 +353,7 @@ const StatsDetail: React.FC<Props> = ({ pluginId, onBack }) => {
             }
         })();
         return () => { mounted = false; };
-    }, [pluginId, refreshKey]);
+    }, [pluginId, refreshKey, cacheRevision]);
 
     return (
         <div>
@@ -1,7 +1,10 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { GitHubRepo } from '../types';
-import { fetchAllPlugins, findPluginByName, findPluginForRepo, fetchPluginCharts, fetchChartData, clearBstatsCache, getManualMapping, testBstatsApi } from '../services/bstatsService';
+import { fetchAllPlugins, findPluginByName, findPluginForRepo, fetchPluginCharts, fetchChartData, clearBstatsCache, getManualMapping, testBstatsApi, getChartDataFetchedAt, BSTATS_CACHE_UPDATED_EVENT } from '../services/bstatsService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import { useConnectivity } from '../hooks/useConnectivity';
 import StatsDetail from './StatsDetail';
+import DataAge from './DataAge';
 import * as echarts from 'echarts';
 
 type Props = { repos: GitHubRepo[] };
@@ -37,12 +40,15 @@ const StatsTab: React.FC<Props> = ({ repos }) => {
     const [testResult, setTestResult] = useState<any>(null);
     const [testing, setTesting] = useState(false);
     const [selectedDetail, setSelectedDetail] = useState<{ repo: GitHubRepo; pluginId: number; pluginName: string } | null>(null);
+    const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+    const cacheRevision = useCacheRevision(BSTATS_CACHE_UPDATED_EVENT);
+    // Looking up again after a reconnect revalidates whatever was served from the cache while offline
+    const { offline } = useConnectivity();
 
     const runLookup = useCallback(async () => {
         let mounted = true;
         try {
             setError(null);
-            setPluginsLoaded(false);
             await fetchAllPlugins(); // warm cache
             if (!mounted) return;
             // For each repo, try to find plugin match
@@ -90,6 +96,7 @@ const StatsTab: React.FC<Props> = ({ repos }) => {
                     setLoadingMap(prev => ({ ...prev, [repo.id]: false }));
                 }
             }
+            setFetchedAt(await getChartDataFetchedAt());
 
         } catch (e: any) {
             console.error('bStats fetch error', e);
@@ -104,10 +111,10 @@ const StatsTab: React.FC<Props> = ({ repos }) => {
         const onMappingChange = () => { runLookup(); };
         window.addEventListener('bstats-mapping-changed', onMappingChange);
         return () => { window.removeEventListener('bstats-mapping-changed', onMappingChange); };
-    }, [repos, runLookup]);
+    }, [repos, runLookup, cacheRevision, offline]);
 
     const handleRefresh = async () => {
-        clearBstatsCache();
+        await clearBstatsCache();
         setPluginsLoaded(false);
         setMatches({});
         setChartData({});
@@ -147,7 +154,8 @@ const StatsTab: React.FC<Props> = ({ repos }) => {
             <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-semibold">Statistics (bStats)</h2>
                 <div className="flex items-center gap-2">
-                    <button onClick={handleRefresh} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">Refresh</button>
+                    <DataAge fetchedAt={fetchedAt} />
+                    <button onClick={handleRefresh} disabled={offline} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed">Refresh</button>
                 </div>
             </div>
 
@@ -155,7 +163,7 @@ const StatsTab: React.FC<Props> = ({ repos }) => {
                 <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-4">
                     <div className="mb-2 font-semibold">{error}</div>
                     <div className="flex gap-2">
-                        <button onClick={handleRefresh} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">Retry</button>
+                        <button onClick={handleRefresh} disabled={offline} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed">Retry</button>
                         <button
                             onClick={async () => {
                                 setTesting(true);
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitHubArtifact, GitHubRepo, GitHubWorkflowJob, GitHubWorkflowRun } from '../types';
+import { OfflineError } from '../services/connectivityService';
+import { fetchWorkflowRuns, fetchWorkflowJobs, fetchRunArtifacts, getBuildStatus, GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { useCacheRevision } from '../hooks/useCacheRevision';
+import LoadingSpinner from './LoadingSpinner';
+import BuildStatusBadge from './BuildStatusBadge';
+import { formatElapsed } from './DataAge';
+import { formatBytes } from '../utils/format';
+import { ExternalLinkIcon } from './Icons';
+
+interface WorkflowRunsProps {
+    repo: GitHubRepo;
+    // Bumped by the parent to re-read after the repository's cache was invalidated
+    reloadKey: number;
+}
+
+// "1h 4m", "3m 12s" or "45s"
+const formatDuration = (ms: number): string => {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    if (h > 0) return `${h}h ${m}m`;
+    if (m > 0) return `${m}m ${s}s`;
+    return `${s}s`;
+};
+
+const runDuration = (run: GitHubWorkflowRun): number | null => {
+    if (run.status !== 'completed') return null;
+    return Date.parse(run.updated_at) - Date.parse(run.run_started_at);
+};
+
+const jobDuration = (job: GitHubWorkflowJob): number | null => {
+    if (!job.completed_at) return null;
+    return Date.parse(job.completed_at) - Date.parse(job.started_at);
+};
+
+type RunDetails = {
+    jobs: GitHubWorkflowJob[];
+    artifacts: GitHubArtifact[];
+};
+
+const RunDetailsPanel: React.FC<{ repo: GitHubRepo; run: GitHubWorkflowRun }> = ({ repo, run }) => {
+    const { t } = useTranslation();
+    const [details, setDetails] = useState<RunDetails | null>(null);
+    const [error, setError] = useState('');
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setError('');
+            try {
+                const [jobs, artifacts] = await Promise.all([
+                    fetchWorkflowJobs(repo.owner.login, repo.name, run.id),
+                    fetchRunArtifacts(repo.owner.login, repo.name, run.id),
+                ]);
+                if (!cancelled) setDetails({ jobs, artifacts });
+            } catch (err) {
+                console.error(`Failed to load jobs of run ${run.id} in ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('actions.detailsError'));
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [repo, run, cacheRevision, t]);
+
+    if (error) return <p className="text-sm text-red-400 mt-3">{error}</p>;
+    if (!details) return <div className="flex justify-center py-4"><LoadingSpinner /></div>;
+
+    return (
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+            <div>
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">{t('actions.jobs')}</h4>
+                <ul className="space-y-2">
+                    {details.jobs.map(job => {
+                        const duration = jobDuration(job);
+                        const failedSteps = (job.steps ?? []).filter(step => getBuildStatus(step) === 'failure');
+                        return (
+                            <li key={job.id} className="bg-gray-900/50 p-2 rounded-md text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <a href={job.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-200 hover:text-cyan-400 hover:underline truncate">{job.name}</a>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        {duration !== null && <span className="text-xs text-gray-500">{formatDuration(duration)}</span>}
+                                        <BuildStatusBadge status={getBuildStatus(job)} />
+                                    </div>
+                                </div>
+                                {failedSteps.length > 0 && (
+                                    <ul className="mt-1 text-xs text-red-300">
+                                        {failedSteps.map(step => (
+                                            <li key={step.number}>
+                                                <a href={`${job.html_url}#step:${step.number}:1`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                                    {t('actions.failedStep', { step: step.name })}
+                                                </a>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+            <div>
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">{t('actions.artifacts')}</h4>
+                {details.artifacts.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('actions.noArtifacts')}</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {details.artifacts.map(artifact => (
+                            <li key={artifact.id} className="bg-gray-900/50 p-2 rounded-md text-sm flex items-center justify-between gap-2">
+                                {/* Artifact archives need an authenticated API call; the run page offers them for download */}
+                                <a href={`${run.html_url}#artifacts`} target="_blank" rel="noopener noreferrer" className={`truncate hover:underline ${artifact.expired ? 'text-gray-500 line-through' : 'text-cyan-500'}`}>
+                                    {artifact.name}
+                                </a>
+                                <span className="text-xs text-gray-500 flex-shrink-0">
+                                    {artifact.expired ? t('actions.expired') : formatBytes(artifact.size_in_bytes)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const WorkflowRuns: React.FC<WorkflowRunsProps> = ({ repo, reloadKey }) => {
+    const { t, i18n } = useTranslation();
+    const [runs, setRuns] = useState<GitHubWorkflowRun[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        setLoading(true);
+        setRuns([]);
+        setExpanded(null);
+    }, [repo]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setError('');
+            try {
+                const data = await fetchWorkflowRuns(repo.owner.login, repo.name);
+                if (!cancelled) setRuns(data);
+            } catch (err) {
+                console.error(`Failed to load workflow runs for ${repo.full_name}`, err);
+                if (!cancelled) setError(err instanceof OfflineError ? t('offline.noSnapshot') : t('actions.error'));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [repo, reloadKey, cacheRevision, t]);
+
+    if (loading) return <div className="flex justify-center py-12"><LoadingSpinner /></div>;
+
+    if (error) {
+        return <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center" role="alert">{error}</div>;
+    }
+
+    if (runs.length === 0) return <p className="text-gray-500 pl-2">{t('actions.noRuns')}</p>;
+
+    return (
+        <ul className="space-y-2">
+            {runs.map(run => {
+                const duration = runDuration(run);
+                return (
+                    <li key={run.id} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+                        <div className="flex items-start justify-between gap-4">
+                            <button onClick={() => setExpanded(expanded === run.id ? null : run.id)} className="min-w-0 flex-1 text-left" aria-expanded={expanded === run.id}>
+                                <div className="text-gray-100 font-medium truncate">{run.display_title}</div>
+                                <div className="text-xs text-gray-400 mt-1 flex flex-wrap gap-x-3">
+                                    <span>{run.name} #{run.run_number}</span>
+                                    <span className="font-mono">{run.head_branch}</span>
+                                    <span>{run.event}</span>
+                                    {run.actor && <span>@{run.actor.login}</span>}
+                                    <span title={new Date(run.run_started_at).toLocaleString()}>
+                                        {formatElapsed(Math.max(0, Date.now() - Date.parse(run.run_started_at)), i18n.language) ?? t('dataAge.justNow')}
+                                    </span>
+                                    {duration !== null && <span>{t('actions.took', { duration: formatDuration(duration) })}</span>}
+                                </div>
+                            </button>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <BuildStatusBadge status={getBuildStatus(run)} />
+                                <a href={run.html_url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400" aria-label={t('actions.openRun')}>
+                                    <ExternalLinkIcon className="w-4 h-4" />
+                                </a>
+                            </div>
+                        </div>
+                        {expanded === run.id && <RunDetailsPanel repo={repo} run={run} />}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default WorkflowRuns;
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+// Bumps a counter whenever a background revalidation stores fresh data under one of `eventNames`.
+// Components add the counter to their effect dependencies to re-read the (now fresh) cache.
+// Bursts of updates are coalesced so a refresh of many entries causes a single reload.
+export const useCacheRevision = (...eventNames: string[]): number => {
+    const [revision, setRevision] = useState(0);
+    const eventKey = eventNames.join(',');
+
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const bump = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => setRevision(r => r + 1), 250);
+        };
+        const names = eventKey.split(',');
+        names.forEach(name => window.addEventListener(name, bump));
+        return () => {
+            clearTimeout(timer);
+            names.forEach(name => window.removeEventListener(name, bump));
+        };
+    }, [eventKey]);
+
+    return revision;
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { GitHubRepo } from '../types';
+import { GITHUB_CACHE_UPDATED_EVENT } from '../services/githubService';
+import { fetchCompatibility, RepoCompatibility } from '../services/compatibilityService';
+import { useCacheRevision } from './useCacheRevision';
+
+// Cache updates arrive in bursts while a refresh revalidates; the read starts once they settle
+const SETTLE_DELAY_MS = 1000;
+
+// Minecraft version support of every repository, read only while `enabled` since it downloads release jars;
+// callers keep it off until the repository list has finished loading. `compatibilities` is null until the
+// first read finishes and keeps the previous result while a later one runs; `progress` counts the
+// repositories read so far.
+export const useCompatibility = (repos: GitHubRepo[], enabled = true) => {
+    const [compatibilities, setCompatibilities] = useState<RepoCompatibility[] | null>(null);
+    const [progress, setProgress] = useState(0);
+    const cacheRevision = useCacheRevision(GITHUB_CACHE_UPDATED_EVENT);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            setProgress(0);
+            fetchCompatibility(repos, done => { if (!cancelled) setProgress(done); })
+                .then(result => { if (!cancelled) setCompatibilities(result); })
+                .catch(err => {
+                    console.error('Failed to read the Minecraft version support of the repositories', err);
+                    if (!cancelled) setProgress(0);
+                });
+        }, SETTLE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [repos, enabled, cacheRevision]);
+
+    return { compatibilities, progress };
+};
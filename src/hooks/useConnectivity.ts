@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { getConnectivity, ConnectivityState, CONNECTIVITY_CHANGED_EVENT } from '../services/connectivityService';
+
+export const useConnectivity = (): ConnectivityState => {
+    const [state, setState] = useState<ConnectivityState>(getConnectivity);
+
+    useEffect(() => {
+        const onChange = (e: Event) => setState((e as CustomEvent<ConnectivityState>).detail);
+        window.addEventListener(CONNECTIVITY_CHANGED_EVENT, onChange);
+        return () => window.removeEventListener(CONNECTIVITY_CHANGED_EVENT, onChange);
+    }, []);
+
+    return state;
+};
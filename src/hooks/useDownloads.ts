@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { DownloadEntry } from '../types';
+import { listDownloads } from '../services/downloadService';
+
+// Download history, newest first, kept current by the main process
+export const useDownloads = (): DownloadEntry[] => {
+    const [entries, setEntries] = useState<DownloadEntry[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        listDownloads()
+            .then(list => { if (!cancelled) setEntries(list); })
+            .catch(err => console.error('Failed to read the download history', err));
+        const stop = window.electronAPI.onDownloadsChanged(setEntries);
+        return () => {
+            cancelled = true;
+            stop();
+        };
+    }, []);
+
+    return entries;
+};
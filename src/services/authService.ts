@@ -0,0 +1,70 @@
+import { AccountsState, TokenValidation } from '../types';
+import { clearAccountCache } from './githubService';
+
+// --- GitHub accounts ---
+// Tokens live in the main process (encrypted with `safeStorage`), which attaches the active account's
+// token to GitHub API requests. The renderer only sees account metadata.
+
+const LEGACY_TOKEN_KEY = 'github-token';
+export const ACCOUNTS_CHANGED_EVENT = 'github-accounts-changed';
+
+const announce = (state: AccountsState): AccountsState => {
+    window.dispatchEvent(new CustomEvent(ACCOUNTS_CHANGED_EVENT, { detail: state }));
+    return state;
+};
+
+// Moves a token saved by older versions in plain localStorage into an encrypted account
+export const migrateLegacyToken = async (): Promise<void> => {
+    const legacyToken = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (!legacyToken) return;
+    const validation = await validateToken(legacyToken);
+    if (validation.ok) {
+        await window.electronAPI.addGitHubAccount(validation.validationId, validation.account.login);
+        console.log('Migrated GitHub token to encrypted storage.');
+    } else if (validation.reason !== 'invalid') {
+        // Keep it for the next start when GitHub could not be asked
+        return;
+    }
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+};
+
+export const getAccounts = (): Promise<AccountsState> => window.electronAPI.listGitHubAccounts();
+
+// Saves the account a validation resolved, with the token the main process kept from it
+export const addAccount = async (validationId: string, label: string): Promise<AccountsState> => {
+    return announce(await window.electronAPI.addGitHubAccount(validationId, label));
+};
+
+export const removeAccount = async (id: string): Promise<AccountsState> => {
+    const state = await window.electronAPI.removeGitHubAccount(id);
+    await clearAccountCache(id);
+    return announce(state);
+};
+
+// For a token GitHub no longer accepts: the account stays, with its cache, until it signs in again
+export const requireSignIn = async (id: string): Promise<AccountsState> => {
+    return announce(await window.electronAPI.requireGitHubSignIn(id));
+};
+
+export const activateAccount = async (id: string): Promise<AccountsState> => {
+    return announce(await window.electronAPI.activateGitHubAccount(id));
+};
+
+export const renameAccount = async (id: string, label: string): Promise<AccountsState> => {
+    return announce(await window.electronAPI.renameGitHubAccount(id, label));
+};
+
+export const validateToken = (token?: string, serverUrl?: string): Promise<TokenValidation> => window.electronAPI.validateGitHubToken(token, serverUrl);
+
+// --- Scopes ---
+// Classic scopes the dashboard relies on, and the broader scopes that include them
+const REQUIRED_SCOPES: Record<string, string[]> = {
+    'public_repo': ['repo'],
+    'repo:status': ['repo'],
+};
+
+export const getMissingScopes = (granted: string[]): string[] => {
+    return Object.entries(REQUIRED_SCOPES)
+        .filter(([scope, implied]) => !granted.includes(scope) && !implied.some(s => granted.includes(s)))
+        .map(([scope]) => scope);
+};
@@ -1,5 +1,16 @@
+import { createCache, CacheItem, DAY, MINUTE } from './cache';
+import { isOffline, OfflineError } from './connectivityService';
+
 const BSTATS_API_BASE = 'https://bstats.org';
 const CACHE_PREFIX = 'bstats-cache-';
+export const BSTATS_CACHE_UPDATED_EVENT = 'bstats-cache-updated';
+
+// How long each kind of entry is served before it is revalidated
+const CACHE_TTL = {
+    plugins: DAY,
+    charts: DAY,
+    chartData: 30 * MINUTE,
+};
 
 type Plugin = {
     id: number;
@@ -18,35 +29,26 @@ export type ChartMetadata = {
     data: any;
 };
 
-const cache = {
-    get: <T>(key: string): T | null => {
-        const item = localStorage.getItem(`${CACHE_PREFIX}${key}`);
-        if (!item) return null;
-        try {
-            return JSON.parse(item) as T;
-        } catch (e) {
-            console.error('Failed to parse bStats cache item', e);
-            return null;
-        }
-    },
-    set: (key: string, data: any) => {
-        try {
-            localStorage.setItem(`${CACHE_PREFIX}${key}`, JSON.stringify(data));
-        } catch (e) {
-            console.error('Failed to set bStats cache item', e);
-        }
-    },
-    clear: () => {
-        Object.keys(localStorage)
-            .filter(key => key.startsWith(CACHE_PREFIX))
-            .forEach(key => localStorage.removeItem(key));
-        console.log('bStats cache cleared.');
-    }
-};
+const cache = createCache(CACHE_PREFIX, 'bStats', BSTATS_CACHE_UPDATED_EVENT);
 
 export const clearBstatsCache = cache.clear;
 
+export type BstatsCacheKind = 'plugins-all' | 'plugin-charts' | 'chart-data' | 'other';
+
+const BSTATS_CACHE_KINDS: BstatsCacheKind[] = ['plugins-all', 'plugin-charts', 'chart-data'];
+
+export const getBstatsCacheKind = (key: string): BstatsCacheKind =>
+    BSTATS_CACHE_KINDS.find(kind => key === kind || key.startsWith(`${kind}-`)) ?? 'other';
+
+export const listBstatsCacheEntries = (): Promise<CacheItem[]> => cache.list();
+
+export const expireBstatsCacheEntries = (keys: string[]): Promise<void> => cache.expire(keys);
+
+export const removeBstatsCacheEntries = (keys: string[]): Promise<void> => cache.remove(keys);
+
 async function fetchJson<T>(endpoint: string): Promise<T> {
+    // bStats being down says nothing about the network, so only the shared offline state is honoured here
+    if (isOffline()) throw new OfflineError(`Not contacting bStats for ${endpoint} while offline.`);
     try {
         const res = await fetch(`${BSTATS_API_BASE}${endpoint}`);
         const text = await res.text();
@@ -72,34 +74,29 @@ async function fetchJson<T>(endpoint: string): Promise<T> {
     }
 }
 
-export const fetchAllPlugins = async (): Promise<Plugin[]> => {
-    const key = 'plugins-all';
-    const cached = cache.get<Plugin[]>(key);
-    if (cached) return cached;
-    const data = await fetchJson<Plugin[]>('/api/v1/plugins');
-    cache.set(key, data);
-    return data;
+// bStats sends no validators, so revalidation is a plain refetch
+const fetchWithCache = async <T>(key: string, endpoint: string, ttl: number): Promise<T> => {
+    const entry = await cache.load<T>(key, ttl, async () => ({ data: await fetchJson<T>(endpoint) }));
+    return entry.data;
 };
 
-export const fetchPluginCharts = async (pluginId: number): Promise<Record<string, ChartMetadata>> => {
-    const key = `plugin-charts-${pluginId}`;
-    const cached = cache.get<Record<string, ChartMetadata>>(key);
-    if (cached) return cached;
-    const data = await fetchJson<Record<string, ChartMetadata>>(`/api/v1/plugins/${pluginId}/charts`);
-    cache.set(key, data);
-    return data;
+export const fetchAllPlugins = (): Promise<Plugin[]> => {
+    return fetchWithCache<Plugin[]>('plugins-all', '/api/v1/plugins', CACHE_TTL.plugins);
 };
 
-export const fetchChartData = async (pluginId: number, chartId: string, maxElements?: number): Promise<any> => {
+export const fetchPluginCharts = (pluginId: number): Promise<Record<string, ChartMetadata>> => {
+    return fetchWithCache<Record<string, ChartMetadata>>(`plugin-charts-${pluginId}`, `/api/v1/plugins/${pluginId}/charts`, CACHE_TTL.charts);
+};
+
+export const fetchChartData = (pluginId: number, chartId: string, maxElements?: number): Promise<any> => {
     const key = `chart-data-${pluginId}-${chartId}-${maxElements || 'all'}`;
-    const cached = cache.get<any>(key);
-    if (cached) return cached;
     const url = `/api/v1/plugins/${pluginId}/charts/${chartId}/data${maxElements ? `?maxElements=${maxElements}` : ''}`;
-    const data = await fetchJson<any>(url);
-    cache.set(key, data);
-    return data;
+    return fetchWithCache<any>(key, url, CACHE_TTL.chartData);
 };
 
+// How old the chart series currently on screen are
+export const getChartDataFetchedAt = (): Promise<number | null> => cache.oldestFetchedAt('chart-data-');
+
 export const findPluginByName = async (name: string): Promise<Plugin | null> => {
     const plugins = await fetchAllPlugins();
     const normalize = (s: string) => s.toLowerCase().replace(/[_\-\s]/g, '');
@@ -0,0 +1,199 @@
+import { CacheStats } from '../types';
+import { isOffline, OfflineError } from './connectivityService';
+
+// --- Shared response cache with per-entry TTL and stale-while-revalidate ---
+// Entries live in the on-disk cache of the main process (see electron/cacheStore.ts); the payload is
+// stored as `data` and everything else (fetch time, TTL, validators) as metadata that can be listed
+// and updated without reading the payloads.
+
+export type CacheEntry<T, M extends object = {}> = {
+    data: T;
+    // Epoch millis of the last successful fetch or revalidation
+    fetchedAt: number;
+    // Milliseconds the entry is served without revalidating
+    ttl: number;
+    // Set by `expire`; forces revalidation regardless of the TTL while keeping `fetchedAt` for display
+    stale: boolean;
+} & M;
+
+// What a loader hands back: the payload plus any cache-specific metadata (e.g. HTTP validators)
+export type Loaded<T, M extends object = {}> = { data: T } & M;
+
+// An entry as listed for diagnostics, without its payload
+export type CacheItem = {
+    key: string;
+    // Bytes on disk
+    size: number;
+    fetchedAt: number;
+    ttl: number;
+    stale: boolean;
+    lastAccess: number;
+};
+
+export const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+// Usage of the whole on-disk cache, across services and accounts
+export const getCacheStats = (): Promise<CacheStats> => window.electronAPI.cacheStats();
+
+const isFresh = (entry: CacheEntry<unknown, any>): boolean => !entry.stale && Date.now() - entry.fetchedAt < entry.ttl;
+
+// A full response may still carry what was cached, e.g. from an endpoint without validators; only a
+// real change is worth announcing, since every listener reloads on it
+const hasChanged = (before: CacheEntry<unknown, any>, after: CacheEntry<unknown, any>): boolean => {
+    if (after.data === before.data) return false;
+    if (typeof before.etag === 'string' && before.etag === after.etag) return false;
+    return JSON.stringify(after.data) !== JSON.stringify(before.data);
+};
+
+const toEntry = <T, M extends object>(data: unknown, meta: Record<string, unknown>): CacheEntry<T, M> | null => {
+    if (typeof meta.fetchedAt !== 'number') return null;
+    return { ...meta, data } as CacheEntry<T, M>;
+};
+
+// Entries used to be kept in localStorage under the same keys; move them over once, then free the quota
+const migrateFromLocalStorage = async (prefix: string, label: string) => {
+    const keys = Object.keys(localStorage).filter(key => key.startsWith(prefix));
+    for (const key of keys) {
+        try {
+            const { data, ...meta } = JSON.parse(localStorage.getItem(key) ?? 'null');
+            if (typeof meta.fetchedAt === 'number') await window.electronAPI.cacheSet(key, data, meta);
+        } catch (e) {
+            console.warn(`Skipping unreadable ${label} cache item ${key} during migration`, e);
+        }
+        localStorage.removeItem(key);
+    }
+    if (keys.length > 0) console.log(`Moved ${keys.length} ${label} cache entries out of localStorage.`);
+};
+
+// `prefix` can be narrowed with `setNamespace`, so that data fetched on behalf of different accounts
+// is kept apart. Every operation only sees the current namespace.
+export function createCache<M extends object = {}>(basePrefix: string, label: string, updatedEvent: string) {
+    let prefix = basePrefix;
+    // One revalidation per storage key at a time, shared by every caller that asks while it runs
+    const revalidations = new Map<string, Promise<CacheEntry<any, M>>>();
+    const migrated = migrateFromLocalStorage(basePrefix, label)
+        .catch(e => console.error(`Failed to migrate the ${label} cache`, e));
+
+    const namespacePrefix = (namespace: string | null) => namespace ? `${basePrefix}${namespace}-` : basePrefix;
+
+    const read = async <T>(storageKey: string): Promise<CacheEntry<T, M> | null> => {
+        await migrated;
+        try {
+            const record = await window.electronAPI.cacheGet(storageKey);
+            return record ? toEntry<T, M>(record.data, record.meta) : null;
+        } catch (e) {
+            console.error(`Failed to read ${label} cache item`, e);
+            return null;
+        }
+    };
+
+    const write = async <T>(storageKey: string, entry: CacheEntry<T, M>) => {
+        const { data, ...meta } = entry;
+        try {
+            await window.electronAPI.cacheSet(storageKey, data, meta);
+        } catch (e) {
+            console.error(`Failed to set ${label} cache item`, e);
+        }
+    };
+
+    const revalidate = <T>(key: string, ttl: number, cached: CacheEntry<T, M> | null, loader: (cached: CacheEntry<T, M> | null) => Promise<Loaded<T, M>>): Promise<CacheEntry<T, M>> => {
+        // Pin the storage key, so a response arriving after a namespace switch lands where it was requested
+        const storageKey = `${prefix}${key}`;
+        const pending = revalidations.get(storageKey);
+        if (pending) return pending;
+        const promise = loader(cached)
+            .then(async loaded => {
+                const entry = { ...loaded, fetchedAt: Date.now(), ttl, stale: false } as CacheEntry<T, M>;
+                await write(storageKey, entry);
+                return entry;
+            })
+            .finally(() => revalidations.delete(storageKey));
+        revalidations.set(storageKey, promise);
+        return promise;
+    };
+
+    return {
+        get: <T>(key: string): Promise<CacheEntry<T, M> | null> => read<T>(`${prefix}${key}`),
+        set: <T>(key: string, entry: CacheEntry<T, M>): Promise<void> => write(`${prefix}${key}`, entry),
+        // Returns a fresh entry straight from the cache. A stale entry is returned right away as well,
+        // while a background revalidation runs and announces changed data through `updatedEvent`.
+        // Only a missing entry makes the caller wait for the network.
+        load: async <T>(key: string, ttl: number, loader: (cached: CacheEntry<T, M> | null) => Promise<Loaded<T, M>>): Promise<CacheEntry<T, M>> => {
+            const cached = await read<T>(`${prefix}${key}`);
+            // Offline, whatever was stored last is the best there is, however old
+            if (cached && (isFresh(cached) || isOffline())) return cached;
+            if (isOffline()) throw new OfflineError(`No cached ${label} data for ${key} while offline.`);
+            const pending = revalidate(key, ttl, cached, loader);
+            if (!cached) return pending;
+            pending
+                .then(entry => {
+                    if (hasChanged(cached, entry)) {
+                        window.dispatchEvent(new CustomEvent(updatedEvent, { detail: { key } }));
+                    }
+                })
+                .catch(e => console.warn(`Background revalidation of ${label} cache entry ${key} failed`, e));
+            return cached;
+        },
+        // Oldest fetch time among entries whose key starts with `keyPrefix`, i.e. how old the data built from them is
+        oldestFetchedAt: async (keyPrefix: string): Promise<number | null> => {
+            await migrated;
+            const listing = await window.electronAPI.cacheList(`${prefix}${keyPrefix}`);
+            const times = listing.map(item => item.meta.fetchedAt).filter((t): t is number => typeof t === 'number');
+            return times.length > 0 ? Math.min(...times) : null;
+        },
+        // Every entry in the namespace, for diagnostics
+        list: async (): Promise<CacheItem[]> => {
+            await migrated;
+            const listing = await window.electronAPI.cacheList(prefix);
+            return listing
+                .filter(item => typeof item.meta.fetchedAt === 'number')
+                .map(item => ({
+                    key: item.key.slice(prefix.length),
+                    size: item.size,
+                    fetchedAt: item.meta.fetchedAt as number,
+                    ttl: Number(item.meta.ttl),
+                    stale: item.meta.stale === true,
+                    lastAccess: item.lastAccess,
+                }));
+        },
+        // Marks all entries, or only those under `keys`, for revalidation
+        expire: async (keys?: string[]) => {
+            await migrated;
+            if (keys) {
+                await window.electronAPI.cachePatchKeys(keys.map(key => `${prefix}${key}`), { stale: true });
+                return;
+            }
+            await window.electronAPI.cachePatchMeta(prefix, { stale: true });
+            console.log(`${label} cache marked for revalidation.`);
+        },
+        remove: async (keys: string[]) => {
+            await migrated;
+            await window.electronAPI.cacheDeleteKeys(keys.map(key => `${prefix}${key}`));
+        },
+        clear: async () => {
+            await migrated;
+            await window.electronAPI.cacheDeletePrefix(prefix);
+            console.log(`${label} cache cleared.`);
+        },
+        setNamespace: (namespace: string | null) => {
+            prefix = namespacePrefix(namespace);
+        },
+        // Removes the entries outside of every namespace, i.e. whose key after the base prefix does not start
+        // with `namespaceStart`, such as the ones migrated from before caches were namespaced
+        clearUnscoped: async (namespaceStart: string) => {
+            await migrated;
+            const listing = await window.electronAPI.cacheList(basePrefix);
+            const unscoped = listing.map(item => item.key).filter(key => !key.startsWith(`${basePrefix}${namespaceStart}`));
+            if (unscoped.length === 0) return;
+            await window.electronAPI.cacheDeleteKeys(unscoped);
+            console.log(`Removed ${unscoped.length} ${label} cache entries that belong to no account.`);
+        },
+        // Removes every entry of a namespace, e.g. one belonging to a removed account
+        clearNamespace: async (namespace: string) => {
+            await migrated;
+            await window.electronAPI.cacheDeletePrefix(namespacePrefix(namespace));
+        },
+    };
+}
@@ -0,0 +1,124 @@
+import { GitHubCompareCommit, GitHubMergedPullRequest } from '../types';
+
+// --- Changelog between two refs, grouped by Conventional Commits type ---
+
+export const CHANGE_TYPES = ['feat', 'fix', 'perf', 'refactor', 'docs', 'test', 'build', 'ci', 'style', 'chore', 'revert', 'other'] as const;
+
+export type ChangeType = typeof CHANGE_TYPES[number];
+
+// Headings of the exported Markdown, which is meant for release notes and stays in English
+const MARKDOWN_TITLES: Record<ChangeType, string> = {
+    feat: 'Features',
+    fix: 'Bug Fixes',
+    perf: 'Performance',
+    refactor: 'Refactoring',
+    docs: 'Documentation',
+    test: 'Tests',
+    build: 'Build',
+    ci: 'CI',
+    style: 'Style',
+    chore: 'Chores',
+    revert: 'Reverts',
+    other: 'Other Changes',
+};
+
+export type ChangelogEntry = {
+    type: ChangeType;
+    scope: string | null;
+    subject: string;
+    breaking: boolean;
+    sha: string;
+    html_url: string;
+    // Login of the pull request or commit author, when linked to an account
+    author: string | null;
+    pullRequest: GitHubMergedPullRequest | null;
+};
+
+export type Changelog = {
+    // Non-empty groups in CHANGE_TYPES order
+    groups: Array<{ type: ChangeType; entries: ChangelogEntry[] }>;
+    breaking: ChangelogEntry[];
+    commitCount: number;
+};
+
+const CONVENTIONAL_HEADER = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const MERGE_PULL_REQUEST = /^Merge pull request #(\d+) from \S+/;
+// GitHub appends the number to squash-merged titles: "fix: handle nulls (#123)"
+const SQUASHED_PULL_REQUEST = /\s\(#(\d+)\)$/;
+const OTHER_MERGE = /^Merge (branch|branches|remote-tracking branch|tag|commit) /;
+
+const isChangeType = (type: string): type is ChangeType => (CHANGE_TYPES as readonly string[]).includes(type);
+
+export const parseConventionalCommit = (header: string, body = ''): Pick<ChangelogEntry, 'type' | 'scope' | 'subject' | 'breaking'> => {
+    const breakingFooter = /^BREAKING[ -]CHANGE:/m.test(body);
+    const match = header.match(CONVENTIONAL_HEADER);
+    if (!match) return { type: 'other', scope: null, subject: header, breaking: breakingFooter };
+    const type = match[1].toLowerCase();
+    return {
+        type: isChangeType(type) ? type : 'other',
+        scope: match[2] || null,
+        subject: match[4],
+        breaking: match[3] === '!' || breakingFooter,
+    };
+};
+
+// Number of the pull request a commit landed through, from GitHub's merge and squash commit messages
+export const referencedPullRequest = (message: string): number | null => {
+    const header = message.split('\n')[0];
+    const match = header.match(MERGE_PULL_REQUEST) ?? header.match(SQUASHED_PULL_REQUEST);
+    return match ? Number(match[1]) : null;
+};
+
+// Merge commits of pull requests stand for their pull request, titled after it; other merges add nothing
+export const buildChangelog = (commits: GitHubCompareCommit[], pulls: Record<number, GitHubMergedPullRequest>): Changelog => {
+    const entries: ChangelogEntry[] = [];
+    commits.forEach(commit => {
+        const [header, ...rest] = commit.commit.message.split('\n');
+        const body = rest.join('\n').trim();
+        if (OTHER_MERGE.test(header)) return;
+        const number = referencedPullRequest(header);
+        const pullRequest = number !== null ? pulls[number] ?? null : null;
+
+        let title = header.replace(SQUASHED_PULL_REQUEST, '');
+        if (MERGE_PULL_REQUEST.test(header)) {
+            // The merge commit body starts with the pull request title
+            title = pullRequest?.title || body.split('\n')[0] || header;
+        }
+        entries.push({
+            ...parseConventionalCommit(title, body),
+            sha: commit.sha,
+            html_url: commit.html_url,
+            author: pullRequest?.author ?? commit.author?.login ?? null,
+            pullRequest,
+        });
+    });
+
+    return {
+        groups: CHANGE_TYPES
+            .map(type => ({ type, entries: entries.filter(entry => entry.type === type) }))
+            .filter(group => group.entries.length > 0),
+        breaking: entries.filter(entry => entry.breaking),
+        commitCount: commits.length,
+    };
+};
+
+const markdownLine = (entry: ChangelogEntry): string => {
+    const scope = entry.scope ? `**${entry.scope}:** ` : '';
+    const reference = entry.pullRequest
+        ? `[#${entry.pullRequest.number}](${entry.pullRequest.html_url})`
+        : `[${entry.sha.slice(0, 7)}](${entry.html_url})`;
+    const author = entry.author ? ` by @${entry.author}` : '';
+    return `- ${scope}${entry.subject} (${reference})${author}`;
+};
+
+export const changelogToMarkdown = (changelog: Changelog, base: string, head: string, compareUrl: string): string => {
+    const lines = [`## Changes from ${base} to ${head}`, ''];
+    if (changelog.breaking.length > 0) {
+        lines.push('### ⚠ Breaking Changes', '', ...changelog.breaking.map(markdownLine), '');
+    }
+    changelog.groups.forEach(group => {
+        lines.push(`### ${MARKDOWN_TITLES[group.type]}`, '', ...group.entries.map(markdownLine), '');
+    });
+    lines.push(`**Full changelog:** ${compareUrl}`, '');
+    return lines.join('\n');
+};
@@ -0,0 +1,160 @@
+import { GitHubRelease, GitHubRepo } from '../types';
+import { fetchAllReleases, fetchReleaseJarDescription } from './githubService';
+import { isChecksumAsset } from './downloadService';
+import { compareVersions } from './pluginServerService';
+
+// --- Minecraft version compatibility ---
+// A release's jar states the oldest server API it runs on (`api-version` in plugin.yml), and its name or
+// notes often list the Minecraft versions it was tested with. Neither is authoritative; the notes win
+// when they say anything.
+
+// Reading api-version means downloading the jar, so only the newest releases of each repository are read
+const RELEASES_WITH_JARS = 5;
+
+// Repositories are read a few at a time, like the dependency graph
+const CONCURRENCY = 4;
+
+// Only lines naming the game or a server software are searched, so plugin versions are not mistaken for
+// Minecraft versions
+const PLATFORM_PATTERN = /\b(minecraft|mc|paper|spigot|bukkit|purpur|folia)\b|마인크래프트/i;
+
+const MC_VERSION = String.raw`1\.\d{1,2}(?:\.(?:\d{1,2}|x))?`;
+const HINT_PATTERN = new RegExp(String.raw`(?<![\w.])(${MC_VERSION})(?:\s*(?:-|–|~|to)\s*(${MC_VERSION})|\s*(\+|or (?:newer|higher|later|above)))?(?![\w.]*\d)`, 'gi');
+
+// 1.8 is the oldest version plugins are still written for; anything lower is taken for something else
+const OLDEST_MINOR = 8;
+
+export type McRange = {
+    from: string;
+    // null when open-ended ("1.20.4+"); a two-part bound such as "1.20" covers all of its patches
+    to: string | null;
+};
+
+export type ReleaseCompatibility = {
+    release: GitHubRelease;
+    apiVersion: string | null;
+    ranges: McRange[];
+};
+
+export type RepoCompatibility = {
+    repo: GitHubRepo;
+    // Newest first, drafts left out
+    releases: ReleaseCompatibility[];
+};
+
+// `likely` means only api-version vouches for it, which says nothing about newer versions breaking the plugin
+export type CompatibilityStatus = 'supported' | 'likely' | 'unsupported' | 'unknown';
+
+export type RepoSupport = {
+    status: CompatibilityStatus;
+    // Newest release that supports the version
+    release: GitHubRelease | null;
+};
+
+export const normalizeMcVersion = (version: string): string => version.toLowerCase().replace(/\.x$/, '');
+
+const isMcVersion = (version: string): boolean => Number(version.split('.')[1]) >= OLDEST_MINOR;
+
+// Supported-version hints from a release's name and notes, e.g. "Paper 1.20.4 - 1.21", "MC 1.20.x", "Spigot 1.19+"
+export const parseVersionHints = (text: string): McRange[] => {
+    const ranges: McRange[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (!PLATFORM_PATTERN.test(line)) continue;
+        for (const match of line.matchAll(HINT_PATTERN)) {
+            const from = normalizeMcVersion(match[1]);
+            const to = match[3] ? null : normalizeMcVersion(match[2] ?? match[1]);
+            if (!isMcVersion(from) || (to !== null && !isMcVersion(to))) continue;
+            if (!ranges.some(range => range.from === from && range.to === to)) ranges.push({ from, to });
+        }
+    }
+    return ranges;
+};
+
+const inRange = (version: string, range: McRange): boolean => {
+    if (compareVersions(version, range.from) < 0) return false;
+    if (range.to === null) return true;
+    return compareVersions(version, range.to) <= 0 || (range.to.split('.').length === 2 && version.startsWith(`${range.to}.`));
+};
+
+export const releaseSupports = (compatibility: ReleaseCompatibility, version: string): CompatibilityStatus => {
+    if (compatibility.ranges.length > 0) return compatibility.ranges.some(range => inRange(version, range)) ? 'supported' : 'unsupported';
+    if (compatibility.apiVersion) return compareVersions(version, compatibility.apiVersion) >= 0 ? 'likely' : 'unsupported';
+    return 'unknown';
+};
+
+// The newest release that supports the version, one with explicit notes before one that only has api-version
+export const repoSupport = (compatibility: RepoCompatibility, version: string): RepoSupport => {
+    const statuses = compatibility.releases.map(release => ({ release: release.release, status: releaseSupports(release, version) }));
+    return statuses.find(entry => entry.status === 'supported')
+        ?? statuses.find(entry => entry.status === 'likely')
+        ?? { status: statuses.some(entry => entry.status === 'unsupported') ? 'unsupported' : 'unknown', release: null };
+};
+
+export const isCompatible = (compatibility: RepoCompatibility, version: string): boolean => {
+    const { status } = repoSupport(compatibility, version);
+    return status === 'supported' || status === 'likely';
+};
+
+export const isValidMcVersion = (version: string): boolean => new RegExp(`^${MC_VERSION}$`, 'i').test(version.trim());
+
+// Every version some release mentions, newest first; these are the columns of the matrix
+export const knownMcVersions = (compatibilities: RepoCompatibility[]): string[] => {
+    const versions = new Set<string>();
+    compatibilities.forEach(({ releases }) => releases.forEach(({ apiVersion, ranges }) => {
+        if (apiVersion && isValidMcVersion(apiVersion)) versions.add(normalizeMcVersion(apiVersion));
+        ranges.forEach(range => {
+            versions.add(range.from);
+            if (range.to) versions.add(range.to);
+        });
+    }));
+    return [...versions].sort((a, b) => compareVersions(b, a));
+};
+
+// Notes are cached as rendered HTML; block ends become line breaks so hints stay on their own line
+const notesText = (html: string): string => {
+    const withBreaks = html.replace(/<br\s*\/?>|<\/(?:p|li|h[1-6]|tr|div|pre)>/gi, '\n');
+    return new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent ?? '';
+};
+
+const jarOf = (release: GitHubRelease) => release.assets.find(asset => asset.name.toLowerCase().endsWith('.jar') && !isChecksumAsset(asset));
+
+export const fetchRepoCompatibility = async (repo: GitHubRepo): Promise<RepoCompatibility> => {
+    const owner = repo.owner.login;
+    const releases = (await fetchAllReleases(owner, repo.name)).filter(release => !release.draft);
+    const compatibilities: ReleaseCompatibility[] = [];
+    // One jar at a time; the repositories are already read in parallel
+    for (const [index, release] of releases.entries()) {
+        const jar = index < RELEASES_WITH_JARS ? jarOf(release) : undefined;
+        let apiVersion: string | null = null;
+        if (jar) {
+            try {
+                apiVersion = (await fetchReleaseJarDescription(owner, repo.name, jar))?.apiVersion ?? null;
+            } catch (e) {
+                console.warn(`Could not read ${jar.name} of ${repo.full_name}`, e);
+            }
+        }
+        compatibilities.push({ release, apiVersion, ranges: parseVersionHints(`${release.name ?? ''}\n${notesText(release.body_html ?? '')}`) });
+    }
+    return { repo, releases: compatibilities };
+};
+
+// Repositories whose releases cannot be read are still listed, without releases
+export const fetchCompatibility = async (repos: GitHubRepo[], onProgress?: (done: number) => void): Promise<RepoCompatibility[]> => {
+    const results: RepoCompatibility[] = [];
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+        while (next < repos.length) {
+            const repo = repos[next++];
+            try {
+                results.push(await fetchRepoCompatibility(repo));
+            } catch (e) {
+                console.warn(`Could not read the releases of ${repo.full_name}`, e);
+                results.push({ repo, releases: [] });
+            }
+            onProgress?.(++done);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, repos.length) }, worker));
+    return results.sort((a, b) => a.repo.name.localeCompare(b.repo.name));
+};
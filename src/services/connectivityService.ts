@@ -0,0 +1,99 @@
+// --- Connectivity ---
+// The app counts as offline when the OS reports no network or when requests fail to reach their server at
+// all (as opposed to failing with an HTTP error). While offline, the caches serve whatever they hold
+// regardless of age and nothing is sent over the network. Once a probe gets through again, or the OS
+// reports the network back, CONNECTIVITY_CHANGED_EVENT announces the reconnect so views can resync.
+
+export const CONNECTIVITY_CHANGED_EVENT = 'connectivity-changed';
+
+const PROBE_INTERVAL = 30 * 1000;
+
+export type ConnectivityState = {
+    offline: boolean;
+    // Epoch millis at which connectivity was lost
+    offlineSince: number | null;
+};
+
+// Thrown instead of sending a request while offline, and when a request could not reach its server
+export class OfflineError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OfflineError';
+    }
+}
+
+let state: ConnectivityState = navigator.onLine
+    ? { offline: false, offlineSince: null }
+    : { offline: true, offlineSince: Date.now() };
+let probe: (() => Promise<unknown>) | null = null;
+let probeTimer: ReturnType<typeof setInterval> | undefined;
+// Shared by the requests that fail while one check is running
+let failureCheck: Promise<boolean> | null = null;
+
+export const getConnectivity = (): ConnectivityState => state;
+
+export const isOffline = (): boolean => state.offline;
+
+const update = (next: ConnectivityState) => {
+    state = next;
+    window.dispatchEvent(new CustomEvent(CONNECTIVITY_CHANGED_EVENT, { detail: state }));
+};
+
+const goOnline = () => {
+    if (!state.offline) return;
+    clearInterval(probeTimer);
+    probeTimer = undefined;
+    console.log('Connectivity restored.');
+    update({ offline: false, offlineSince: null });
+};
+
+// While offline, try the probe now and then; the OS may report a network that still cannot reach the server
+const runProbe = async () => {
+    if (!navigator.onLine) return;
+    if (!probe) {
+        goOnline();
+        return;
+    }
+    try {
+        await probe();
+        goOnline();
+    } catch {
+        // Still unreachable
+    }
+};
+
+const goOffline = () => {
+    if (state.offline) return;
+    console.warn('Connectivity lost; serving cached data.');
+    update({ offline: true, offlineSince: Date.now() });
+    probeTimer = setInterval(runProbe, PROBE_INTERVAL);
+};
+
+// The request that checks whether the network is back; it should not count against any quota
+export const setConnectivityProbe = (check: () => Promise<unknown>) => {
+    probe = check;
+};
+
+// Called by the services with the outcome of every request that left the machine. A request can fail
+// without a response for reasons of its own (a bad URL, CORS), so the app only goes offline when the OS
+// has no network or the probe cannot get through either. Resolves to whether the app is offline now.
+export const reportNetworkFailure = (): Promise<boolean> => {
+    if (!navigator.onLine) {
+        goOffline();
+        return Promise.resolve(true);
+    }
+    if (!probe) return Promise.resolve(state.offline);
+    failureCheck ??= probe()
+        .then(() => false, () => {
+            goOffline();
+            return true;
+        })
+        .finally(() => { failureCheck = null; });
+    return failureCheck;
+};
+
+export const reportNetworkSuccess = () => goOnline();
+
+window.addEventListener('offline', goOffline);
+window.addEventListener('online', () => { runProbe(); });
+if (state.offline) probeTimer = setInterval(runProbe, PROBE_INTERVAL);
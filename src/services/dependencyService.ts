@@ -0,0 +1,127 @@
+import { GitHubRelease, GitHubRepo, PluginDescription } from '../types';
+import { fetchPluginDescriptorFile, fetchReleaseJarDescription } from './githubService';
+import { isChecksumAsset } from './downloadService';
+import { compareVersions, latestReleaseOf, normalizePluginName, PluginUpdate } from './pluginServerService';
+
+// --- Plugin dependencies ---
+// Built from each repository's plugin.yml on the default branch, or from the jar of its latest release
+// when the branch has none (e.g. when the build generates it).
+
+export const CORE_PLUGIN = 'DPP-Core';
+
+// Repositories are read a few at a time, like the download leaderboard
+const CONCURRENCY = 4;
+
+export type PluginSource = 'branch' | 'release';
+
+export type RepoPlugin = {
+    repo: GitHubRepo;
+    description: PluginDescription | null;
+    source: PluginSource | null;
+    latest: GitHubRelease | null;
+};
+
+export type DependencyEdge = {
+    from: string;
+    // Plugin name as written in the descriptor
+    to: string;
+    // The repository providing it, null for plugins from elsewhere (Vault, PlaceholderAPI, …)
+    toRepo: GitHubRepo | null;
+    soft: boolean;
+};
+
+export const isCorePlugin = (name: string): boolean => normalizePluginName(name) === normalizePluginName(CORE_PLUGIN);
+
+export const fetchRepoPlugin = async (repo: GitHubRepo): Promise<RepoPlugin> => {
+    const owner = repo.owner.login;
+    const [file, latest] = await Promise.all([fetchPluginDescriptorFile(owner, repo.name), latestReleaseOf(repo)]);
+    if (file) {
+        try {
+            return { repo, description: await window.electronAPI.parsePluginDescriptor(file.text), source: 'branch', latest };
+        } catch (e) {
+            console.warn(`Unreadable ${file.path} in ${repo.full_name}`, e);
+        }
+    }
+    const jar = latest?.assets.find(asset => asset.name.toLowerCase().endsWith('.jar') && !isChecksumAsset(asset));
+    const description = jar ? await fetchReleaseJarDescription(owner, repo.name, jar) : null;
+    return { repo, description, source: description ? 'release' : null, latest };
+};
+
+// Repositories whose plugin cannot be read are still listed, without a description
+export const fetchRepoPlugins = async (repos: GitHubRepo[], onProgress?: (done: number) => void): Promise<RepoPlugin[]> => {
+    const results: RepoPlugin[] = [];
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+        while (next < repos.length) {
+            const repo = repos[next++];
+            try {
+                results.push(await fetchRepoPlugin(repo));
+            } catch (e) {
+                console.warn(`Could not read the plugin descriptor of ${repo.full_name}`, e);
+                results.push({ repo, description: null, source: null, latest: null });
+            }
+            onProgress?.(++done);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, repos.length) }, worker));
+    return results.sort((a, b) => a.repo.name.localeCompare(b.repo.name));
+};
+
+// Dependencies are named after plugins, which usually but not always share their repository's name
+export const dependencyEdges = (plugins: RepoPlugin[]): DependencyEdge[] => {
+    const provider = (name: string): GitHubRepo | null => {
+        const wanted = normalizePluginName(name);
+        const plugin = plugins.find(candidate => candidate.description && normalizePluginName(candidate.description.name) === wanted)
+            ?? plugins.find(candidate => normalizePluginName(candidate.repo.name) === wanted);
+        return plugin?.repo ?? null;
+    };
+    return plugins.flatMap(({ repo, description }) => description ? [
+        ...description.depend.map(name => ({ from: repo.full_name, to: name, toRepo: provider(name), soft: false })),
+        ...description.softdepend.map(name => ({ from: repo.full_name, to: name, toRepo: provider(name), soft: true })),
+    ] : []);
+};
+
+export const dependsOnCore = (description: PluginDescription | null): boolean => description?.depend.some(isCorePlugin) ?? false;
+
+// plugin.yml only names its dependencies, not their versions. Without a `dpp-core-version` the plugin is
+// assumed to be built against the newest DPP-Core released before it; that is an estimate, not a requirement.
+export const estimatedCoreVersion = (release: GitHubRelease, coreReleases: GitHubRelease[]): string | null => {
+    if (!release.published_at) return null;
+    const published = release.published_at;
+    // Releases are listed newest first
+    const core = coreReleases.find(candidate => !candidate.draft && !candidate.prerelease && candidate.published_at && candidate.published_at <= published);
+    return core?.tag_name ?? null;
+};
+
+export type CoreVersion = {
+    version: string;
+    // true when the version comes from the release dates rather than the plugin's descriptor
+    estimated: boolean;
+};
+
+// The oldest core a release of a plugin that hard-depends on the core works with
+export const requiredCoreVersion = (description: PluginDescription | null, release: GitHubRelease, coreReleases: GitHubRelease[]): CoreVersion | null => {
+    if (!description || isCorePlugin(description.name) || !dependsOnCore(description)) return null;
+    if (description.coreVersion) return { version: description.coreVersion, estimated: false };
+    const estimate = estimatedCoreVersion(release, coreReleases);
+    return estimate ? { version: estimate, estimated: true } : null;
+};
+
+export type CoreRequirement = CoreVersion & {
+    // null when DPP-Core is not installed at all
+    installed: string | null;
+};
+
+// Null when the update needs nothing newer than the installed core, or when that cannot be told.
+// `releaseDescription` is the descriptor of the jar the update installs; while it is unknown the
+// installed jar's stands in for it, and the result is only an estimate.
+export const checkCoreRequirement = (
+    update: PluginUpdate, releaseDescription: PluginDescription | null, installedCore: string | null, coreReleases: GitHubRelease[],
+): CoreRequirement | null => {
+    if (!update.latest) return null;
+    const required = requiredCoreVersion(releaseDescription ?? update.plugin.description, update.latest, coreReleases);
+    if (!required) return null;
+    if (installedCore && compareVersions(installedCore, required.version) >= 0) return null;
+    return { ...required, estimated: required.estimated || !releaseDescription, installed: installedCore };
+};
@@ -0,0 +1,41 @@
+import { DownloadEntry, GitHubRelease, GitHubReleaseAsset, GitHubRepo } from '../types';
+
+// --- Release asset downloads ---
+// Files are downloaded by the main process into a folder of the user's choosing, and checked against
+// the release's SHA-256 checksum file when it publishes one.
+
+// Per-file checksums come first; release-wide lists are matched by the file name inside them
+const SHA256_SUFFIXES = ['.sha256', '.sha256sum', '.sha256.txt'];
+const CHECKSUM_LISTS = /^(sha256sums?|checksums?|[\w.-]*sha256[\w.-]*)(\.txt)?$/i;
+
+export const isChecksumAsset = (asset: GitHubReleaseAsset): boolean => {
+    const name = asset.name.toLowerCase();
+    return SHA256_SUFFIXES.some(suffix => name.endsWith(suffix)) || CHECKSUM_LISTS.test(asset.name);
+};
+
+export const findChecksumAsset = (release: GitHubRelease, asset: GitHubReleaseAsset): GitHubReleaseAsset | null => {
+    const own = release.assets.find(candidate => SHA256_SUFFIXES.some(suffix => candidate.name.toLowerCase() === `${asset.name.toLowerCase()}${suffix}`));
+    return own ?? release.assets.find(candidate => candidate.id !== asset.id && CHECKSUM_LISTS.test(candidate.name)) ?? null;
+};
+
+export const downloadAsset = (repo: GitHubRepo, release: GitHubRelease, asset: GitHubReleaseAsset): Promise<string> => {
+    return window.electronAPI.startDownload({
+        url: asset.browser_download_url,
+        fileName: asset.name,
+        checksumUrl: findChecksumAsset(release, asset)?.browser_download_url,
+        repo: repo.full_name,
+        tag: release.tag_name,
+    });
+};
+
+export const isDownloadActive = (entry: DownloadEntry): boolean => ['queued', 'downloading', 'paused', 'verifying'].includes(entry.status);
+
+export const listDownloads = (): Promise<DownloadEntry[]> => window.electronAPI.listDownloads();
+export const pauseDownload = (id: string): Promise<void> => window.electronAPI.pauseDownload(id);
+export const resumeDownload = (id: string): Promise<void> => window.electronAPI.resumeDownload(id);
+export const cancelDownload = (id: string): Promise<void> => window.electronAPI.cancelDownload(id);
+export const removeDownloads = (ids: string[]): Promise<void> => window.electronAPI.removeDownloads(ids);
+export const revealDownload = (id: string): Promise<boolean> => window.electronAPI.revealDownload(id);
+export const getDownloadDirectory = (): Promise<string> => window.electronAPI.getDownloadDirectory();
+export const openDownloadDirectory = (): Promise<void> => window.electronAPI.openDownloadDirectory();
+export const chooseDownloadDirectory = (): Promise<string> => window.electronAPI.chooseDownloadDirectory();
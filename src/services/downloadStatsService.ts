@@ -0,0 +1,105 @@
+import { GitHubRelease, GitHubRepo } from '../types';
+import { fetchAllReleases, getServer } from './githubService';
+import { isOffline } from './connectivityService';
+
+// --- Release download statistics ---
+// GitHub only reports the cumulative download count of each asset. To show downloads over time, the
+// totals are snapshotted locally, at most once per repository and day, whenever they are looked at.
+
+export type RepoDownloads = {
+    repo: GitHubRepo;
+    total: number;
+    releases: number;
+    // Release with the most downloads
+    top: { tag: string; downloads: number } | null;
+    latest: { tag: string; downloads: number } | null;
+};
+
+export type DownloadSnapshot = {
+    // Local calendar day, YYYY-MM-DD
+    day: string;
+    total: number;
+};
+
+const SNAPSHOTS_KEY = 'download-snapshots';
+// Two years of daily points per repository
+const MAX_SNAPSHOTS = 730;
+// Releases are listed per repository; a few at a time keeps bursts well under the secondary rate limits
+const CONCURRENCY = 4;
+
+export const releaseDownloads = (release: GitHubRelease): number => {
+    return release.assets.reduce((sum, asset) => sum + asset.download_count, 0);
+};
+
+export const summarizeDownloads = (repo: GitHubRepo, releases: GitHubRelease[]): RepoDownloads => {
+    const published = releases.filter(release => !release.draft);
+    const counted = published.map(release => ({ tag: release.tag_name, downloads: releaseDownloads(release) }));
+    return {
+        repo,
+        total: counted.reduce((sum, release) => sum + release.downloads, 0),
+        releases: counted.length,
+        top: counted.reduce<RepoDownloads['top']>((best, release) => !best || release.downloads > best.downloads ? release : best, null),
+        // Releases are listed newest first
+        latest: counted[0] ?? null,
+    };
+};
+
+// Snapshots are kept per server, since the same `owner/repo` can exist on github.com and an Enterprise Server
+const snapshotKey = (repo: GitHubRepo): string => `${new URL(getServer().webUrl).host}/${repo.full_name}`;
+
+const readSnapshots = (): Record<string, DownloadSnapshot[]> => {
+    try {
+        return JSON.parse(localStorage.getItem(SNAPSHOTS_KEY) ?? '{}');
+    } catch (e) {
+        console.error('Failed to parse download snapshots', e);
+        return {};
+    }
+};
+
+const localDay = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getDownloadSnapshots = (repo: GitHubRepo): DownloadSnapshot[] => readSnapshots()[snapshotKey(repo)] ?? [];
+
+// Records today's totals; a later call on the same day replaces that day's point. Nothing is recorded while
+// offline, when the totals come from the cache and may be days old.
+export const recordDownloadSnapshots = (downloads: RepoDownloads[]) => {
+    if (isOffline()) return;
+    const all = readSnapshots();
+    const day = localDay(new Date());
+    downloads.forEach(({ repo, total }) => {
+        const key = snapshotKey(repo);
+        const series = (all[key] ?? []).filter(snapshot => snapshot.day !== day);
+        series.push({ day, total });
+        all[key] = series.slice(-MAX_SNAPSHOTS);
+    });
+    try {
+        localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(all));
+    } catch (e) {
+        console.error('Failed to save download snapshots', e);
+    }
+};
+
+// Download totals of every repository, reported as they come in. Repositories whose releases cannot be
+// read are left out rather than failing the whole list.
+export const fetchDownloadLeaderboard = async (repos: GitHubRepo[], onProgress?: (done: number, results: RepoDownloads[]) => void): Promise<RepoDownloads[]> => {
+    const results: RepoDownloads[] = [];
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+        while (next < repos.length) {
+            const repo = repos[next++];
+            try {
+                results.push(summarizeDownloads(repo, await fetchAllReleases(repo.owner.login, repo.name)));
+            } catch (e) {
+                console.warn(`Skipping download counts of ${repo.full_name}`, e);
+            }
+            onProgress?.(++done, [...results]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, repos.length) }, worker));
+    recordDownloadSnapshots(results);
+    return results.sort((a, b) => b.total - a.total);
+};
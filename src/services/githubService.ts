@@ -1,126 +1,902 @@
-import { GitHubRepo, GitHubCommit, GitHubRelease } from '../types';
+import { GitHubRepo, GitHubCommit, GitHubRelease, GitHubServer, GitHubIssue, GitHubPullRequest, PullRequestReviewDecision, RepoSummary, SavedAccount, BuildStatus, GitHubWorkflowRun, GitHubWorkflowJob, GitHubArtifact,
+    GitHubHistoryCommit, GitHubCommitDetail, CommitActivityWeek, GitHubCompareCommit, GitHubMergedPullRequest, GitHubReleaseAsset, PluginDescription } from '../types';
+import { createCache, CacheEntry, CacheItem, DAY, HOUR, MINUTE } from './cache';
+import { isOffline, reportNetworkFailure, reportNetworkSuccess, setConnectivityProbe, OfflineError } from './connectivityService';
 
-const GITHUB_API_BASE = 'https://api.github.com';
+const GITHUB_DOT_COM: GitHubServer = {
+    webUrl: 'https://github.com',
+    apiUrl: 'https://api.github.com',
+    graphqlUrl: 'https://api.github.com/graphql',
+    version: null,
+};
 const CACHE_PREFIX = 'github-cache-';
+export const GITHUB_CACHE_UPDATED_EVENT = 'github-cache-updated';
 
-// --- Cache Utility Functions ---
-const cache = {
-    get: <T>(key: string): T | null => {
-        const item = localStorage.getItem(`${CACHE_PREFIX}${key}`);
-        if (!item) return null;
-        try {
-            return JSON.parse(item) as T;
-        } catch (e) {
-            console.error('Failed to parse cache item', e);
-            return null;
-        }
-    },
-    set: (key: string, data: any) => {
-        try {
-            const item = JSON.stringify(data);
-            localStorage.setItem(`${CACHE_PREFIX}${key}`, item);
-        } catch (e) {
-            console.error('Failed to set cache item', e);
-        }
-    },
-    clear: () => {
-        Object.keys(localStorage)
-            .filter(key => key.startsWith(CACHE_PREFIX))
-            .forEach(key => localStorage.removeItem(key));
-        console.log('GitHub data cache cleared.');
-    }
+// How long each kind of entry is served before it is revalidated
+const CACHE_TTL = {
+    repos: 10 * MINUTE,
+    summaries: 10 * MINUTE,
+    commit: 10 * MINUTE,
+    release: 30 * MINUTE,
+    releases: 30 * MINUTE,
+    readme: DAY,
+    issues: 5 * MINUTE,
+    pulls: 5 * MINUTE,
+    runs: 2 * MINUTE,
+    jobs: 2 * MINUTE,
+    history: 10 * MINUTE,
+    // A commit never changes, and neither does the account behind a login
+    commitDetail: DAY,
+    userNode: DAY,
+    activity: HOUR,
+    // Tags rarely move, and the pull requests merged between them are settled
+    compare: HOUR,
+    pluginDescriptor: HOUR,
+    // Keyed by asset, whose content never changes
+    pluginJar: DAY,
+};
+
+// Every entry keeps the response validators so revalidation can use a conditional request.
+type HttpMeta = {
+    etag: string | null;
+    lastModified: string | null;
+    // rel="next" target of a paginated response, kept so a 304 page still knows where the next page is
+    next: string | null;
 };
 
+const cache = createCache<HttpMeta>(CACHE_PREFIX, 'GitHub data', GITHUB_CACHE_UPDATED_EVENT);
+
 export const clearCache = cache.clear;
+// Removes the cached data of an account that was signed out
+export const clearAccountCache = (accountId: string) => cache.clearNamespace(accountId);
+// Keeps cached data and validators but forces every entry to be revalidated on next use.
+// Unchanged resources then come back as 304s, which GitHub does not count against the rate limit.
+export const invalidateCache = (): Promise<void> => cache.expire();
+
+export class GitHubApiError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'GitHubApiError';
+        this.status = status;
+    }
+}
+
+// Thrown when the primary quota is exhausted or a secondary rate limit persists after retrying
+export class RateLimitError extends GitHubApiError {
+    // Epoch millis at which requests may succeed again, when GitHub told us
+    resetAt: number | null;
+
+    constructor(message: string, status: number, resetAt: number | null) {
+        super(message, status);
+        this.name = 'RateLimitError';
+        this.resetAt = resetAt;
+    }
+}
+
+// --- Rate Limit Tracking ---
+export type RateLimitState = {
+    limit: number;
+    remaining: number;
+    // Epoch millis at which the quota window resets
+    reset: number;
+};
+
+export const GITHUB_RATE_LIMIT_EVENT = 'github-rate-limit-updated';
+
+// Below this many remaining requests, calls are queued and spaced out until the window resets
+const LOW_QUOTA_THRESHOLD = 50;
+const MAX_THROTTLE_DELAY = 10 * 1000;
+const MAX_SECONDARY_LIMIT_RETRIES = 3;
+
+let rateLimit: RateLimitState | null = null;
+let throttleQueue: Promise<void> = Promise.resolve();
+
+export const getRateLimit = (): RateLimitState | null => rateLimit;
+
+// --- Accounts ---
+// Requests go to the active account's server, github.com or a GitHub Enterprise Server instance.
+let server: GitHubServer = GITHUB_DOT_COM;
+
+export const getServer = (): GitHubServer => server;
+
+// What the API returns depends on what the token can see, so each account caches under a namespace of
+// its own. Quota is per token as well; the badge starts over until the new account's first response.
+export const selectAccount = (account: SavedAccount | null) => {
+    server = account?.server ?? GITHUB_DOT_COM;
+    // Entries written before caches were namespaced cannot be told apart by account (ids start with "account-")
+    if (account) cache.clearUnscoped('account-').catch(e => console.error('Failed to remove unscoped cache entries', e));
+    cache.setNamespace(account?.id ?? null);
+    rateLimit = null;
+    window.dispatchEvent(new CustomEvent(GITHUB_RATE_LIMIT_EVENT, { detail: null }));
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const updateRateLimit = (response: Response) => {
+    // GraphQL and search have budgets of their own; the badge and throttling follow the core REST quota
+    const resource = response.headers.get('X-RateLimit-Resource');
+    if (resource && resource !== 'core') return;
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    rateLimit = { limit: Number(limit), remaining: Number(remaining), reset: Number(reset) * 1000 };
+    window.dispatchEvent(new CustomEvent(GITHUB_RATE_LIMIT_EVENT, { detail: rateLimit }));
+};
+
+// When the quota a response was counted against resets. GraphQL and search report their own window in
+// the response; the tracked core quota only stands in for responses that name no other resource.
+const quotaReset = (response: Response): number | null => {
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (reset !== null) return Number(reset) * 1000;
+    const resource = response.headers.get('X-RateLimit-Resource');
+    return !resource || resource === 'core' ? rateLimit?.reset ?? null : null;
+};
+
+// Resolves when the next request may be sent. With plenty of quota left this is immediate; near the
+// limit requests take turns and are spread over the time left in the window; once it is exhausted
+// they fail fast instead of waiting up to an hour.
+const waitForQuota = (endpoint: string): Promise<void> => {
+    const state = rateLimit;
+    if (!state || state.remaining > LOW_QUOTA_THRESHOLD || state.reset <= Date.now()) {
+        return Promise.resolve();
+    }
+    if (state.remaining <= 0) {
+        return Promise.reject(new RateLimitError(`GitHub API rate limit exceeded before requesting ${endpoint}.`, 403, state.reset));
+    }
+    const turn = throttleQueue.then(() => {
+        const current = rateLimit ?? state;
+        const delay = Math.min((current.reset - Date.now()) / Math.max(current.remaining, 1), MAX_THROTTLE_DELAY);
+        return delay > 0 ? sleep(delay) : undefined;
+    });
+    throttleQueue = turn.catch(() => undefined);
+    return turn;
+};
+
+// How long to back off after a 403/429, or null when the response is not a rate limit.
+// Secondary limits send `Retry-After`; without it GitHub asks for at least a minute, growing per attempt.
+const rateLimitBackoff = (response: Response, message: string, attempt: number): number | null => {
+    if (response.status !== 403 && response.status !== 429) return null;
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter !== null) return Number(retryAfter) * 1000;
+    if (/secondary rate limit/i.test(message)) return 60 * 1000 * 2 ** attempt;
+    return null;
+};
 
 // --- API Fetch Wrapper ---
-async function apiFetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const token = localStorage.getItem('github-token');
-    
+// `endpoint` is either a path relative to the API base or an absolute URL (e.g. a `Link` header target).
+// A 304 is passed through to the caller, since it only comes back for conditional requests.
+// The Authorization header is added by the main process, which holds the token.
+async function apiRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
     const headers: Record<string, string> = {
         'Accept': 'application/vnd.github.v3+json',
         ...(options.headers as Record<string, string>),
     };
 
-    if (token) {
-        headers['Authorization'] = `token ${token}`;
-    }
+    const url = endpoint.startsWith('http') ? endpoint : `${server.apiUrl}${endpoint}`;
+    for (let attempt = 0; ; attempt++) {
+        if (isOffline()) throw new OfflineError(`Not requesting ${endpoint} while offline.`);
+        await waitForQuota(endpoint);
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                ...options,
+                headers,
+            });
+        } catch (e: any) {
+            // No response at all: the network or the server is unreachable, or only this request failed
+            if (await reportNetworkFailure()) {
+                throw new OfflineError(`Could not reach GitHub for ${endpoint}: ${e?.message || String(e)}`);
+            }
+            throw new GitHubApiError(`GitHub API request for ${endpoint} failed: ${e?.message || String(e)}`, 0);
+        }
+        reportNetworkSuccess();
+        updateRateLimit(response);
 
-    const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
-        ...options,
-        headers,
-    });
+        if (response.ok || response.status === 304) {
+            return response;
+        }
 
-    if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: 'No error details available' }));
-        throw new Error(`GitHub API request for ${endpoint} failed: ${response.status} ${response.statusText}. Message: ${errorData.message}`);
+        const message = `GitHub API request for ${endpoint} failed: ${response.status} ${response.statusText}. Message: ${errorData.message}`;
+
+        if (response.headers.get('X-RateLimit-Remaining') === '0') {
+            throw new RateLimitError(message, response.status, quotaReset(response));
+        }
+        const backoff = rateLimitBackoff(response, String(errorData.message), attempt);
+        if (backoff !== null) {
+            if (attempt >= MAX_SECONDARY_LIMIT_RETRIES) {
+                throw new RateLimitError(message, response.status, Date.now() + backoff);
+            }
+            console.warn(`Secondary rate limit hit for ${endpoint}, retrying in ${Math.round(backoff / 1000)}s`);
+            await sleep(backoff);
+            continue;
+        }
+        throw new GitHubApiError(message, response.status);
+    }
+}
+
+// `/rate_limit` does not count against the quota, which makes it a free reachability check
+setConnectivityProbe(() => fetch(`${server.apiUrl}/rate_limit`));
+
+// Fetches the current quota; `/rate_limit` itself does not count against it
+export const fetchRateLimit = async (): Promise<RateLimitState | null> => {
+    await apiRequest('/rate_limit');
+    return rateLimit;
+};
+
+// Extracts the rel="next" target from a GitHub `Link` header, e.g. `<https://...&page=2>; rel="next", <...>; rel="last"`.
+const parseNextLink = (linkHeader: string | null): string | null => {
+    if (!linkHeader) return null;
+    for (const part of linkHeader.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+        if (match) return match[1];
     }
+    return null;
+};
+
+type CachedFetchOptions<T> = {
+    accept?: string;
+    parse?: (response: Response) => Promise<T>;
+};
+
+// Serves entries through the cache. Expired entries are revalidated with If-None-Match /
+// If-Modified-Since when validators are known, and a 304 keeps the cached payload.
+function fetchEntry<T>(key: string, endpoint: string, ttl: number, { accept, parse }: CachedFetchOptions<T> = {}): Promise<CacheEntry<T, HttpMeta>> {
+    return cache.load<T>(key, ttl, async (cached) => {
+        const headers: Record<string, string> = {};
+        if (accept) headers['Accept'] = accept;
+        if (cached?.etag) headers['If-None-Match'] = cached.etag;
+        if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+        const response = await apiRequest(endpoint, { headers });
+        if (response.status === 304 && cached) {
+            return cached;
+        }
+
+        return {
+            data: parse ? await parse(response) : await response.json() as T,
+            etag: response.headers.get('ETag'),
+            lastModified: response.headers.get('Last-Modified'),
+            next: parseNextLink(response.headers.get('Link')),
+        };
+    });
+}
 
-    return response.json() as Promise<T>;
+async function apiFetchWithCache<T>(key: string, endpoint: string, ttl: number, options?: CachedFetchOptions<T>): Promise<T> {
+    const entry = await fetchEntry<T>(key, endpoint, ttl, options);
+    return entry.data;
 }
 
-async function apiFetchWithCache<T>(key: string, endpoint: string, options?: RequestInit): Promise<T> {
-    const cachedData = cache.get<T>(key);
-    if (cachedData) {
-        return Promise.resolve(cachedData);
+// --- Pagination ---
+// Follows `Link: rel="next"` until the last page. Each page is cached (and revalidated) on its own and
+// handed to `onPage` as soon as it arrives, so callers can render the first page while the rest loads.
+async function apiFetchAllPages<T>(key: string, endpoint: string, ttl: number, onPage?: (items: T[]) => void, options?: CachedFetchOptions<T[]>): Promise<T[]> {
+    const all: T[] = [];
+    let next: string | null = endpoint;
+    for (let page = 1; next; page++) {
+        const entry: CacheEntry<T[], HttpMeta> = await fetchEntry<T[]>(`${key}-page-${page}`, next, ttl, options);
+        all.push(...entry.data);
+        onPage?.(entry.data);
+        next = entry.next;
     }
-    const data = await apiFetch<T>(endpoint, options);
-    cache.set(key, data);
-    return data;
+    return all;
 }
 
-async function apiFetchHtml(endpoint: string): Promise<string | null> {
-     const token = localStorage.getItem('github-token');
-     const headers: Record<string, string> = {
-        'Accept': 'application/vnd.github.html+json',
-    };
-    if (token) {
-        headers['Authorization'] = `token ${token}`;
+// --- Exported Service Functions ---
+export const fetchRepositories = (orgName: string, onPage?: (repos: GitHubRepo[]) => void): Promise<GitHubRepo[]> => {
+    return apiFetchAllPages<GitHubRepo>(`repos-${orgName}`, `/orgs/${orgName}/repos?sort=pushed&per_page=100`, CACHE_TTL.repos, onPage);
+};
+
+export const fetchUserRepositories = (login: string, onPage?: (repos: GitHubRepo[]) => void): Promise<GitHubRepo[]> => {
+    return apiFetchAllPages<GitHubRepo>(`user-repos-${login}`, `/users/${login}/repos?sort=pushed&per_page=100`, CACHE_TTL.repos, onPage);
+};
+
+export const fetchRepository = (owner: string, repo: string): Promise<GitHubRepo> => {
+    return apiFetchWithCache<GitHubRepo>(`repo-${owner}-${repo}`, `/repos/${owner}/${repo}`, CACHE_TTL.repos);
+};
+
+export const fetchLatestCommit = async (owner: string, repo: string): Promise<GitHubCommit | null> => {
+    const commits = await apiFetchWithCache<GitHubCommit[]>(`commit-${owner}-${repo}`, `/repos/${owner}/${repo}/commits?per_page=1`, CACHE_TTL.commit);
+    return commits[0] || null;
+};
+
+// Releases are requested with their notes rendered to HTML (`body_html`), like the README
+const HTML_MEDIA_TYPE = 'application/vnd.github.html+json';
+
+export const fetchLatestRelease = (owner: string, repo: string): Promise<GitHubRelease> => {
+    return apiFetchWithCache<GitHubRelease>(`release-latest-${owner}-${repo}`, `/repos/${owner}/${repo}/releases/latest`, CACHE_TTL.release, { accept: HTML_MEDIA_TYPE });
+};
+
+export const fetchReadmeHtml = async (owner: string, repo: string): Promise<string | null> => {
+    try {
+        return await apiFetchWithCache<string>(`readme-${owner}-${repo}`, `/repos/${owner}/${repo}/readme`, CACHE_TTL.readme, {
+            accept: HTML_MEDIA_TYPE,
+            parse: response => response.text(),
+        });
+    } catch (e) {
+        if (e instanceof GitHubApiError && e.status === 404) {
+            return null;
+        }
+        throw e;
     }
+};
+
+export const fetchAllReleases = (owner: string, repo: string, onPage?: (releases: GitHubRelease[]) => void): Promise<GitHubRelease[]> => {
+    return apiFetchAllPages<GitHubRelease>(`releases-all-${owner}-${repo}`, `/repos/${owner}/${repo}/releases?per_page=100`, CACHE_TTL.releases, onPage, { accept: HTML_MEDIA_TYPE });
+};
 
-    const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, { headers });
+// --- Actions ---
+export const fetchWorkflowRuns = (owner: string, repo: string): Promise<GitHubWorkflowRun[]> => {
+    return apiFetchWithCache<GitHubWorkflowRun[]>(`runs-${owner}-${repo}`, `/repos/${owner}/${repo}/actions/runs?per_page=30`, CACHE_TTL.runs, {
+        parse: async response => (await response.json()).workflow_runs,
+    });
+};
+
+// Latest run on `branch` that was not triggered by a pull request, for the card badge when no summary is available
+export const fetchLatestWorkflowRun = async (owner: string, repo: string, branch: string): Promise<GitHubWorkflowRun | null> => {
+    const runs = await apiFetchWithCache<GitHubWorkflowRun[]>(`runs-latest-${owner}-${repo}`, `/repos/${owner}/${repo}/actions/runs?branch=${encodeURIComponent(branch)}&exclude_pull_requests=true&per_page=1`, CACHE_TTL.runs, {
+        parse: async response => (await response.json()).workflow_runs,
+    });
+    return runs[0] || null;
+};
+
+// Jobs and artifacts are keyed per run; runs are listed newest first, so old keys simply age out of the cache
+export const fetchWorkflowJobs = (owner: string, repo: string, runId: number): Promise<GitHubWorkflowJob[]> => {
+    return apiFetchWithCache<GitHubWorkflowJob[]>(`run-jobs-${owner}-${repo}-${runId}`, `/repos/${owner}/${repo}/actions/runs/${runId}/jobs?per_page=100`, CACHE_TTL.jobs, {
+        parse: async response => (await response.json()).jobs,
+    });
+};
+
+export const fetchRunArtifacts = (owner: string, repo: string, runId: number): Promise<GitHubArtifact[]> => {
+    return apiFetchWithCache<GitHubArtifact[]>(`run-artifacts-${owner}-${repo}-${runId}`, `/repos/${owner}/${repo}/actions/runs/${runId}/artifacts?per_page=100`, CACHE_TTL.jobs, {
+        parse: async response => (await response.json()).artifacts,
+    });
+};
 
-    if (!response.ok) {
-        if (response.status === 404) {
+export const getBuildStatus = (run: Pick<GitHubWorkflowRun, 'status' | 'conclusion'> | null): BuildStatus => {
+    if (!run) return null;
+    if (run.status !== 'completed') return 'pending';
+    switch (run.conclusion) {
+        case 'success':
+            return 'success';
+        case 'failure':
+        case 'timed_out':
+        case 'startup_failure':
+            return 'failure';
+        case 'cancelled':
+            return 'cancelled';
+        default:
+            // neutral, skipped, action_required, stale
             return null;
+    }
+};
+
+// --- GraphQL ---
+type GraphQLResponse<T> = {
+    data?: T;
+    errors?: Array<{ type?: string; message: string }>;
+};
+
+async function graphqlRequest<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await apiRequest(server.graphqlUrl, {
+        method: 'POST',
+        body: JSON.stringify({ query, variables }),
+    });
+    const result = await response.json() as GraphQLResponse<T>;
+    if (result.errors?.length || !result.data) {
+        const message = result.errors?.map(e => e.message).join('; ') || 'No data returned';
+        // An exhausted GraphQL quota is reported as an error in a 200 response
+        if (result.errors?.some(e => e.type === 'RATE_LIMITED')) {
+            throw new RateLimitError(`GitHub GraphQL rate limit exceeded: ${message}`, response.status, quotaReset(response));
+        }
+        throw new GitHubApiError(`GitHub GraphQL request failed: ${message}`, response.status);
+    }
+    return result.data;
+}
+
+const REPO_SUMMARIES_QUERY = `
+query RepoSummaries($owner: String!, $cursor: String) {
+  repositoryOwner(login: $owner) {
+    repositories(first: 50, after: $cursor, orderBy: { field: PUSHED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        nameWithOwner
+        defaultBranchRef {
+          target {
+            ... on Commit { oid url message author { name date } statusCheckRollup { state } }
+          }
         }
-        throw new Error(`GitHub API request for ${endpoint} failed: ${response.status} ${response.statusText}.`);
+        latestRelease {
+          databaseId name tagName url publishedAt isDraft isPrerelease descriptionHTML
+          releaseAssets(first: 10) { nodes { databaseId name downloadUrl downloadCount size contentType } }
+        }
+        rootTree: object(expression: "HEAD:") {
+          ... on Tree { entries { name } }
+        }
+        issues(states: OPEN) { totalCount }
+        pullRequests(states: OPEN) { totalCount }
+      }
+    }
+  }
+}`;
+
+type SummaryNode = {
+    nameWithOwner: string;
+    defaultBranchRef: {
+        target: {
+            oid: string;
+            url: string;
+            message: string;
+            author: { name: string; date: string };
+            statusCheckRollup: { state: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED' } | null;
+        } | null;
+    } | null;
+    latestRelease: {
+        databaseId: number;
+        name: string | null;
+        tagName: string;
+        url: string;
+        publishedAt: string;
+        isDraft: boolean;
+        isPrerelease: boolean;
+        descriptionHTML: string | null;
+        releaseAssets: { nodes: Array<{ databaseId: number; name: string; downloadUrl: string; downloadCount: number; size: number; contentType: string }> };
+    } | null;
+    rootTree: { entries?: Array<{ name: string }> } | null;
+    issues: { totalCount: number };
+    pullRequests: { totalCount: number };
+};
+
+type SummariesPage = {
+    repositoryOwner: {
+        repositories: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: SummaryNode[];
+        };
+    } | null;
+};
+
+const toBuildStatus = (state: string | undefined): BuildStatus => {
+    switch (state) {
+        case 'SUCCESS':
+            return 'success';
+        case 'FAILURE':
+        case 'ERROR':
+            return 'failure';
+        case 'PENDING':
+        case 'EXPECTED':
+            return 'pending';
+        default:
+            return null;
+    }
+};
+
+// Maps a GraphQL node onto the REST shapes the cards already render
+const toRepoSummary = (node: SummaryNode): RepoSummary => {
+    const commit = node.defaultBranchRef?.target;
+    const release = node.latestRelease;
+    return {
+        latestCommit: commit ? {
+            sha: commit.oid,
+            html_url: commit.url,
+            commit: { message: commit.message, author: { name: commit.author.name, date: commit.author.date } },
+        } : null,
+        latestRelease: release ? {
+            id: release.databaseId,
+            name: release.name ?? '',
+            tag_name: release.tagName,
+            html_url: release.url,
+            published_at: release.publishedAt,
+            draft: release.isDraft,
+            prerelease: release.isPrerelease,
+            body_html: release.descriptionHTML,
+            assets: release.releaseAssets.nodes.map(asset => ({
+                id: asset.databaseId,
+                name: asset.name,
+                browser_download_url: asset.downloadUrl,
+                download_count: asset.downloadCount,
+                size: asset.size,
+                content_type: asset.contentType,
+            })),
+        } : null,
+        hasReadme: !!node.rootTree?.entries?.some(entry => /^readme(\.|$)/i.test(entry.name)),
+        openIssues: node.issues.totalCount,
+        openPullRequests: node.pullRequests.totalCount,
+        buildStatus: toBuildStatus(commit?.statusCheckRollup?.state),
+    };
+};
+
+// Fetches the latest commit, latest release with assets and README presence for every repo of an
+// org or user in pages of 50, keyed by `owner/name`, replacing two REST calls per card. Pages are
+// cached like REST pages, with the GraphQL cursor of the following page stored as `next`. Callers
+// fall back to the per-card REST functions when this rejects, e.g. for tokens without GraphQL access.
+export const fetchRepoSummaries = async (owner: string, onPage?: (summaries: Record<string, RepoSummary>) => void): Promise<Record<string, RepoSummary>> => {
+    const all: Record<string, RepoSummary> = {};
+    let cursor: string | null = null;
+    for (let page = 1; page === 1 || cursor; page++) {
+        const after: string | null = cursor;
+        const entry: CacheEntry<Record<string, RepoSummary>, HttpMeta> = await cache.load<Record<string, RepoSummary>>(`summaries-${owner}-page-${page}`, CACHE_TTL.summaries, async () => {
+            const data = await graphqlRequest<SummariesPage>(REPO_SUMMARIES_QUERY, { owner, cursor: after });
+            if (!data.repositoryOwner) {
+                throw new GitHubApiError(`GitHub GraphQL request failed: no user or organization named ${owner}`, 404);
+            }
+            const { nodes, pageInfo } = data.repositoryOwner.repositories;
+            return {
+                data: Object.fromEntries(nodes.map(node => [node.nameWithOwner, toRepoSummary(node)])),
+                etag: null,
+                lastModified: null,
+                next: pageInfo.hasNextPage ? pageInfo.endCursor : null,
+            };
+        });
+        Object.assign(all, entry.data);
+        onPage?.(entry.data);
+        cursor = entry.next;
     }
+    return all;
+};
+
+// --- Issues and pull requests ---
+// Review decisions are only exposed over GraphQL, so both lists are read from there and mapped onto
+// REST-like shapes. Each page of 50 is cached as `<kind>-<owner>-<repo>-page-<n>`, the cursor of the
+// following page stored as `next`, like the summary pages.
+const ISSUE_FIELDS = `
+        number title url createdAt updatedAt
+        author { login }
+        labels(first: 20) { nodes { name color } }
+        assignees(first: 10) { nodes { login } }
+        comments { totalCount }`;
+
+const OPEN_ISSUES_QUERY = `
+query OpenIssues($owner: String!, $name: String!, $cursor: String) {
+  repository(owner: $owner, name: $name) {
+    items: issues(first: 50, after: $cursor, states: OPEN, orderBy: { field: CREATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {${ISSUE_FIELDS}
+      }
+    }
+  }
+}`;
+
+const OPEN_PULL_REQUESTS_QUERY = `
+query OpenPullRequests($owner: String!, $name: String!, $cursor: String) {
+  repository(owner: $owner, name: $name) {
+    items: pullRequests(first: 50, after: $cursor, states: OPEN, orderBy: { field: CREATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {${ISSUE_FIELDS}
+        isDraft headRefName reviewDecision
+      }
+    }
+  }
+}`;
+
+type IssueNode = {
+    number: number;
+    title: string;
+    url: string;
+    createdAt: string;
+    updatedAt: string;
+    author: { login: string } | null;
+    labels: { nodes: Array<{ name: string; color: string }> };
+    assignees: { nodes: Array<{ login: string }> };
+    comments: { totalCount: number };
+};
+
+type PullRequestNode = IssueNode & {
+    isDraft: boolean;
+    headRefName: string;
+    reviewDecision: PullRequestReviewDecision;
+};
+
+type ItemsPage<N> = {
+    repository: {
+        items: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: N[];
+        };
+    } | null;
+};
 
-    return response.text();
+const toIssue = (node: IssueNode): GitHubIssue => ({
+    number: node.number,
+    title: node.title,
+    html_url: node.url,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    author: node.author?.login ?? null,
+    labels: node.labels.nodes,
+    assignees: node.assignees.nodes.map(assignee => assignee.login),
+    comments: node.comments.totalCount,
+});
+
+const toPullRequest = (node: PullRequestNode): GitHubPullRequest => ({
+    ...toIssue(node),
+    draft: node.isDraft,
+    head_ref: node.headRefName,
+    review_decision: node.reviewDecision,
+});
+
+async function fetchRepoItems<N, T>(key: string, query: string, owner: string, repo: string, ttl: number, map: (node: N) => T, onPage?: (items: T[]) => void): Promise<T[]> {
+    const all: T[] = [];
+    let cursor: string | null = null;
+    for (let page = 1; page === 1 || cursor; page++) {
+        const after: string | null = cursor;
+        const entry: CacheEntry<T[], HttpMeta> = await cache.load<T[]>(`${key}-page-${page}`, ttl, async () => {
+            const data = await graphqlRequest<ItemsPage<N>>(query, { owner, name: repo, cursor: after });
+            if (!data.repository) {
+                throw new GitHubApiError(`GitHub GraphQL request failed: no repository named ${owner}/${repo}`, 404);
+            }
+            const { nodes, pageInfo } = data.repository.items;
+            return {
+                data: nodes.map(map),
+                etag: null,
+                lastModified: null,
+                next: pageInfo.hasNextPage ? pageInfo.endCursor : null,
+            };
+        });
+        all.push(...entry.data);
+        onPage?.(entry.data);
+        cursor = entry.next;
+    }
+    return all;
 }
 
-// --- Exported Service Functions ---
-export const fetchRepositories = (orgName: string): Promise<GitHubRepo[]> => {
-    return apiFetchWithCache<GitHubRepo[]>(`repos-${orgName}`, `/orgs/${orgName}/repos?sort=pushed&per_page=100`);
+export const fetchOpenIssues = (owner: string, repo: string, onPage?: (issues: GitHubIssue[]) => void): Promise<GitHubIssue[]> => {
+    return fetchRepoItems<IssueNode, GitHubIssue>(`issues-${owner}-${repo}`, OPEN_ISSUES_QUERY, owner, repo, CACHE_TTL.issues, toIssue, onPage);
 };
 
-export const fetchLatestCommit = async (owner: string, repo: string): Promise<GitHubCommit | null> => {
-    const cacheKey = `commit-${owner}-${repo}`;
-    const cached = cache.get<GitHubCommit | null>(cacheKey);
-    if (cached) return cached;
-    
-    const commits = await apiFetch<GitHubCommit[]>(`/repos/${owner}/${repo}/commits?per_page=1`);
-    const data = commits[0] || null;
-    cache.set(cacheKey, data);
-    return data;
+export const fetchOpenPullRequests = (owner: string, repo: string, onPage?: (pulls: GitHubPullRequest[]) => void): Promise<GitHubPullRequest[]> => {
+    return fetchRepoItems<PullRequestNode, GitHubPullRequest>(`pulls-${owner}-${repo}`, OPEN_PULL_REQUESTS_QUERY, owner, repo, CACHE_TTL.pulls, toPullRequest, onPage);
 };
 
-export const fetchLatestRelease = (owner: string, repo: string): Promise<GitHubRelease> => {
-    return apiFetchWithCache<GitHubRelease>(`release-latest-${owner}-${repo}`, `/repos/${owner}/${repo}/releases/latest`);
+// --- Commit history ---
+// The REST commit list has no diff stats, so the history is read over GraphQL, which has them for every
+// commit. Its author filter takes an account node id rather than a login.
+export type CommitHistoryFilter = {
+    author?: string;
+    path?: string;
+    // ISO 8601 timestamps
+    since?: string;
+    until?: string;
 };
 
-export const fetchReadmeHtml = (owner: string, repo: string): Promise<string | null> => {
-     const cacheKey = `readme-${owner}-${repo}`;
-     const cached = cache.get<string | null>(cacheKey);
-     if(cached) return Promise.resolve(cached);
+export type CommitHistoryPage = {
+    commits: GitHubHistoryCommit[];
+    // Cursor of the following page, or null on the last one
+    next: string | null;
+};
+
+const COMMIT_HISTORY_QUERY = `
+query CommitHistory($owner: String!, $name: String!, $cursor: String, $author: CommitAuthor, $path: String, $since: GitTimestamp, $until: GitTimestamp) {
+  repository(owner: $owner, name: $name) {
+    defaultBranchRef {
+      target {
+        ... on Commit {
+          history(first: 30, after: $cursor, author: $author, path: $path, since: $since, until: $until) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              oid url message authoredDate
+              author { name user { login } }
+              additions deletions changedFilesIfAvailable
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+type HistoryNode = {
+    oid: string;
+    url: string;
+    message: string;
+    authoredDate: string;
+    author: { name: string | null; user: { login: string } | null } | null;
+    additions: number;
+    deletions: number;
+    changedFilesIfAvailable: number | null;
+};
 
-     return apiFetchHtml(`/repos/${owner}/${repo}/readme`).then(data => {
-         cache.set(cacheKey, data);
-         return data;
-     });
+type HistoryPage = {
+    repository: {
+        defaultBranchRef: {
+            target: {
+                history: {
+                    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+                    nodes: HistoryNode[];
+                };
+            } | null;
+        } | null;
+    } | null;
 };
 
-export const fetchAllReleases = (owner: string, repo: string): Promise<GitHubRelease[]> => {
-    return apiFetchWithCache<GitHubRelease[]>(`releases-all-${owner}-${repo}`,`/repos/${owner}/${repo}/releases?per_page=100`);
-};
\ No newline at end of file
+const toHistoryCommit = (node: HistoryNode): GitHubHistoryCommit => ({
+    sha: node.oid,
+    html_url: node.url,
+    message: node.message,
+    date: node.authoredDate,
+    author: { name: node.author?.name ?? 'unknown', login: node.author?.user?.login ?? null },
+    additions: node.additions,
+    deletions: node.deletions,
+    changed_files: node.changedFilesIfAvailable,
+});
+
+const fetchUserNodeId = async (login: string): Promise<string> => {
+    const user = await apiFetchWithCache<{ node_id: string }>(`user-node-${login}`, `/users/${login}`, CACHE_TTL.userNode);
+    return user.node_id;
+};
+
+// Page `page` (from 1) of the default branch history matching `filter`; `cursor` is the `next` of the
+// previous page. Pages are cached per filter, under `history-<owner>-<repo>-page-<n>` plus the filter.
+export const fetchCommitHistory = async (owner: string, repo: string, filter: CommitHistoryFilter, page: number, cursor: string | null): Promise<CommitHistoryPage> => {
+    const filterKey = [filter.author, filter.path, filter.since, filter.until].map(value => value ?? '').join('|');
+    const key = `history-${owner}-${repo}-page-${page}${filterKey === '|||' ? '' : `-${filterKey}`}`;
+    const entry: CacheEntry<GitHubHistoryCommit[], HttpMeta> = await cache.load<GitHubHistoryCommit[]>(key, CACHE_TTL.history, async () => {
+        const author = filter.author ? { id: await fetchUserNodeId(filter.author) } : null;
+        const data = await graphqlRequest<HistoryPage>(COMMIT_HISTORY_QUERY, {
+            owner,
+            name: repo,
+            cursor,
+            author,
+            path: filter.path || null,
+            since: filter.since || null,
+            until: filter.until || null,
+        });
+        if (!data.repository) {
+            throw new GitHubApiError(`GitHub GraphQL request failed: no repository named ${owner}/${repo}`, 404);
+        }
+        // An empty repository has no default branch yet
+        const history = data.repository.defaultBranchRef?.target?.history;
+        return {
+            data: history ? history.nodes.map(toHistoryCommit) : [],
+            etag: null,
+            lastModified: null,
+            next: history?.pageInfo.hasNextPage ? history.pageInfo.endCursor : null,
+        };
+    });
+    return { commits: entry.data, next: entry.next };
+};
+
+export const fetchCommitDetail = (owner: string, repo: string, sha: string): Promise<GitHubCommitDetail> => {
+    return apiFetchWithCache<GitHubCommitDetail>(`commit-detail-${owner}-${repo}-${sha}`, `/repos/${owner}/${repo}/commits/${sha}`, CACHE_TTL.commitDetail);
+};
+
+// Weekly commit counts of the last year. GitHub computes these statistics in the background and answers
+// 202 until they are ready; that surfaces as a GitHubApiError with status 202 and is not cached.
+export const fetchCommitActivity = (owner: string, repo: string): Promise<CommitActivityWeek[]> => {
+    return apiFetchWithCache<CommitActivityWeek[]>(`commit-activity-${owner}-${repo}`, `/repos/${owner}/${repo}/stats/commit_activity`, CACHE_TTL.activity, {
+        parse: async response => {
+            if (response.status === 202) {
+                throw new GitHubApiError(`Commit activity of ${owner}/${repo} is still being computed.`, 202);
+            }
+            return response.json();
+        },
+    });
+};
+
+// --- Compare ---
+const compareRange = (base: string, head: string) => `${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+
+// Commits reachable from `head` but not from `base`, oldest first
+export const fetchComparison = (owner: string, repo: string, base: string, head: string): Promise<GitHubCompareCommit[]> => {
+    return apiFetchAllPages<GitHubCompareCommit>(`compare-${owner}-${repo}-${base}...${head}`, `/repos/${owner}/${repo}/compare/${compareRange(base, head)}?per_page=100`, CACHE_TTL.compare, undefined, {
+        parse: async response => (await response.json()).commits,
+    });
+};
+
+export const getCompareUrl = (owner: string, repo: string, base: string, head: string): string => {
+    return `${server.webUrl}/${owner}/${repo}/compare/${compareRange(base, head)}`;
+};
+
+type MergedPullRequestNode = {
+    number: number;
+    title: string;
+    url: string;
+    mergedAt: string | null;
+    author: { login: string } | null;
+};
+
+// Looks up pull requests by number in one GraphQL request, aliased `pr<number>`. Numbers that do not
+// resolve to a pull request (e.g. issue references in commit messages) are left out.
+export const fetchPullRequestsByNumber = async (owner: string, repo: string, numbers: number[]): Promise<Record<number, GitHubMergedPullRequest>> => {
+    if (numbers.length === 0) return {};
+    const entry = await cache.load<Record<number, GitHubMergedPullRequest>>(`compare-pulls-${owner}-${repo}-${numbers.join(',')}`, CACHE_TTL.compare, async () => {
+        const fields = numbers.map(n => `pr${n}: issueOrPullRequest(number: ${n}) { ... on PullRequest { number title url mergedAt author { login } } }`).join('\n');
+        const query = `query MergedPullRequests($owner: String!, $name: String!) { repository(owner: $owner, name: $name) {\n${fields}\n} }`;
+        const data = await graphqlRequest<{ repository: Record<string, MergedPullRequestNode | null> | null }>(query, { owner, name: repo });
+        const pulls: Record<number, GitHubMergedPullRequest> = {};
+        Object.values(data.repository ?? {}).forEach(node => {
+            if (!node?.url) return;
+            pulls[node.number] = { number: node.number, title: node.title, html_url: node.url, author: node.author?.login ?? null, merged_at: node.mergedAt };
+        });
+        return { data: pulls, etag: null, lastModified: null, next: null };
+    });
+    return entry.data;
+};
+
+// --- Plugin descriptors ---
+// Where Bukkit plugins keep plugin.yml in a Maven or Gradle project, or at the root of small ones;
+// Paper-only plugins have paper-plugin.yml instead. One query asks for all of them on the default branch.
+const PLUGIN_DESCRIPTOR_PATHS = ['src/main/resources/plugin.yml', 'src/main/resources/paper-plugin.yml', 'plugin.yml', 'paper-plugin.yml'];
+
+export type PluginDescriptorFile = { path: string; text: string };
+
+export const fetchPluginDescriptorFile = async (owner: string, repo: string): Promise<PluginDescriptorFile | null> => {
+    const entry = await cache.load<PluginDescriptorFile | null>(`plugin-yml-${owner}-${repo}`, CACHE_TTL.pluginDescriptor, async () => {
+        const fields = PLUGIN_DESCRIPTOR_PATHS.map((path, i) => `f${i}: object(expression: ${JSON.stringify(`HEAD:${path}`)}) { ... on Blob { text } }`).join('\n');
+        const query = `query PluginDescriptor($owner: String!, $name: String!) { repository(owner: $owner, name: $name) {\n${fields}\n} }`;
+        const data = await graphqlRequest<{ repository: Record<string, { text: string | null } | null> | null }>(query, { owner, name: repo });
+        const index = PLUGIN_DESCRIPTOR_PATHS.findIndex((_, i) => data.repository?.[`f${i}`]?.text);
+        const file = index >= 0 ? { path: PLUGIN_DESCRIPTOR_PATHS[index], text: data.repository![`f${index}`]!.text! } : null;
+        return { data: file, etag: null, lastModified: null, next: null };
+    });
+    return entry.data;
+};
+
+// Descriptor inside a release jar, read by the main process; for repositories that generate plugin.yml
+// at build time or keep it somewhere else. The key is versioned with the descriptor's fields, so entries
+// read before `coreVersion` existed are not served.
+export const fetchReleaseJarDescription = async (owner: string, repo: string, asset: GitHubReleaseAsset): Promise<PluginDescription | null> => {
+    const entry = await cache.load<PluginDescription | null>(`plugin-jar-v3-${owner}-${repo}-${asset.id}`, CACHE_TTL.pluginJar, async () => {
+        return { data: await window.electronAPI.describePluginJar(asset.browser_download_url), etag: null, lastModified: null, next: null };
+    });
+    return entry.data;
+};
+
+// --- Data age ---
+export const getRepositoriesFetchedAt = (orgName: string): Promise<number | null> => cache.oldestFetchedAt(`repos-${orgName}-page-`);
+
+export const getUserRepositoriesFetchedAt = (login: string): Promise<number | null> => cache.oldestFetchedAt(`user-repos-${login}-page-`);
+
+export const getRepositoryFetchedAt = async (owner: string, repo: string): Promise<number | null> => {
+    return (await cache.get(`repo-${owner}-${repo}`))?.fetchedAt ?? null;
+};
+
+export const getRepoDetailsFetchedAt = async (owner: string, repo: string): Promise<number | null> => {
+    const times = (await Promise.all([
+        cache.get(`readme-${owner}-${repo}`).then(entry => entry?.fetchedAt ?? null),
+        cache.oldestFetchedAt(`releases-all-${owner}-${repo}-page-`),
+    ])).filter((t): t is number => t !== null);
+    return times.length ? Math.min(...times) : null;
+};
+
+export const getIssuesFetchedAt = (owner: string, repo: string): Promise<number | null> => cache.oldestFetchedAt(`issues-${owner}-${repo}-page-`);
+
+export const getPullRequestsFetchedAt = (owner: string, repo: string): Promise<number | null> => cache.oldestFetchedAt(`pulls-${owner}-${repo}-page-`);
+
+// --- Cache inspection ---
+// Key prefixes of the cached endpoints. `repo`-scoped kinds are keyed `<kind>-<owner>-<repo>`, paginated
+// ones get a `-page-<n>` suffix. Per-run, per-commit, compare and release jar kinds add a run id, sha, tag
+// range, pull request numbers or asset id and are not invalidated with their repo.
+const CACHE_KINDS = ['user-repos', 'user-node', 'repos', 'repo', 'commit-detail', 'commit-activity', 'commit', 'release-latest', 'releases-all',
+    'readme', 'summaries', 'issues', 'pulls', 'runs-latest', 'runs', 'run-jobs', 'run-artifacts', 'history', 'compare-pulls', 'compare', 'plugin-yml',
+    'plugin-jar'] as const;
+const REPO_CACHE_KINDS = ['repo', 'commit', 'commit-activity', 'release-latest', 'releases-all', 'readme', 'issues', 'pulls', 'runs-latest', 'runs', 'history',
+    'plugin-yml'];
+
+export type GitHubCacheKind = typeof CACHE_KINDS[number] | 'other';
+
+export const getCacheKind = (key: string): GitHubCacheKind => CACHE_KINDS.find(kind => key.startsWith(`${kind}-`)) ?? 'other';
+
+const isRepoCacheKey = (key: string, owner: string, repo: string): boolean => REPO_CACHE_KINDS.some(kind => {
+    const base = `${kind}-${owner}-${repo}`;
+    return key === base || key.startsWith(`${base}-page-`);
+});
+
+// Entries of the active account
+export const listCacheEntries = (): Promise<CacheItem[]> => cache.list();
+
+export const expireCacheEntries = (keys: string[]): Promise<void> => cache.expire(keys);
+
+export const removeCacheEntries = (keys: string[]): Promise<void> => cache.remove(keys);
+
+// Marks everything cached about one repository for revalidation; the next reads come back with fresh
+// data through GITHUB_CACHE_UPDATED_EVENT. Batched card data lives in per-owner summary pages and is
+// left alone, which is why a refreshed card reads over REST.
+export const invalidateRepoCache = async (owner: string, repo: string): Promise<void> => {
+    const keys = (await cache.list()).map(item => item.key).filter(key => isRepoCacheKey(key, owner, repo));
+    await cache.expire(keys);
+};
@@ -0,0 +1,121 @@
+import { GitHubRelease, GitHubReleaseAsset, GitHubRepo, InstalledPlugin, PluginDescription, PluginScan, PluginServer, PluginUpdateRecord } from '../types';
+import { fetchLatestRelease, GitHubApiError } from './githubService';
+import { findChecksumAsset, isChecksumAsset } from './downloadService';
+
+// --- Plugins installed on local servers ---
+// The main process reads the plugin.yml of every jar in a registered `plugins` folder; here the plugins
+// are matched to repositories and their installed versions compared with the latest release.
+
+// `unknown`: no matching repository, no published release, or no version to compare
+export type PluginStatus = 'current' | 'outdated' | 'unknown';
+
+export type PluginUpdate = {
+    plugin: InstalledPlugin;
+    repo: GitHubRepo | null;
+    latest: GitHubRelease | null;
+    status: PluginStatus;
+};
+
+export const listPluginServers = (): Promise<PluginServer[]> => window.electronAPI.listPluginServers();
+export const addPluginServer = (): Promise<PluginServer[]> => window.electronAPI.addPluginServer();
+export const removePluginServer = (id: string): Promise<PluginServer[]> => window.electronAPI.removePluginServer(id);
+export const scanPluginServer = (id: string): Promise<PluginScan> => window.electronAPI.scanPluginServer(id);
+
+export const normalizePluginName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeUrl = (url: string): string => url.trim().toLowerCase().replace(/\.git$/, '').replace(/\/+$/, '');
+
+// The `website` of plugin.yml settles it when it points at a repository; otherwise the names have to
+// agree, ignoring case and separators ("DP-Core" is the repository of "DPCore")
+export const matchPluginRepo = (description: PluginDescription, repos: GitHubRepo[]): GitHubRepo | null => {
+    if (description.website) {
+        const website = normalizeUrl(description.website);
+        const linked = repos.find(repo => normalizeUrl(repo.html_url) === website);
+        if (linked) return linked;
+    }
+    const name = normalizePluginName(description.name);
+    return repos.find(repo => normalizePluginName(repo.name) === name) ?? null;
+};
+
+// Numeric dot-separated parts compare as numbers; a pre-release ("1.2.0-SNAPSHOT") sorts before its
+// release, and build metadata after `+` is ignored
+export const compareVersions = (a: string, b: string): number => {
+    const parse = (version: string) => {
+        const [core, ...pre] = version.trim().replace(/^v/i, '').split('+')[0].split('-');
+        return { parts: core.split('.'), pre: pre.join('-') };
+    };
+    const left = parse(a);
+    const right = parse(b);
+    for (let i = 0; i < Math.max(left.parts.length, right.parts.length); i++) {
+        const x = left.parts[i] ?? '0';
+        const y = right.parts[i] ?? '0';
+        const difference = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+        if (difference !== 0) return Math.sign(difference);
+    }
+    if (left.pre === right.pre) return 0;
+    if (!left.pre) return 1;
+    if (!right.pre) return -1;
+    return Math.sign(left.pre.localeCompare(right.pre));
+};
+
+const pluginStatus = (version: string | null, latest: GitHubRelease | null): PluginStatus => {
+    if (!version || !latest) return 'unknown';
+    return compareVersions(version, latest.tag_name) < 0 ? 'outdated' : 'current';
+};
+
+// A repository without releases answers 404, which only means there is nothing to compare with
+export const latestReleaseOf = async (repo: GitHubRepo): Promise<GitHubRelease | null> => {
+    try {
+        return await fetchLatestRelease(repo.owner.login, repo.name);
+    } catch (e) {
+        if (e instanceof GitHubApiError && e.status === 404) return null;
+        throw e;
+    }
+};
+
+export const checkPluginUpdates = async (scan: PluginScan, repos: GitHubRepo[]): Promise<PluginUpdate[]> => {
+    const matched = scan.plugins.map(plugin => ({ plugin, repo: plugin.description ? matchPluginRepo(plugin.description, repos) : null }));
+    const releases = new Map<number, GitHubRelease | null>();
+    await Promise.all(Array.from(new Set(matched.map(({ repo }) => repo).filter((repo): repo is GitHubRepo => repo !== null))).map(async repo => {
+        try {
+            releases.set(repo.id, await latestReleaseOf(repo));
+        } catch (e) {
+            console.warn(`Could not read the latest release of ${repo.full_name}`, e);
+            releases.set(repo.id, null);
+        }
+    }));
+    return matched.map(({ plugin, repo }) => {
+        const latest = repo ? releases.get(repo.id) ?? null : null;
+        return { plugin, repo, latest, status: pluginStatus(plugin.description?.version ?? null, latest) };
+    });
+};
+
+// --- Updates ---
+// The main process downloads the new jar, backs up the installed one and swaps it in; every update
+// is recorded per server and can be rolled back.
+
+export const listPluginUpdates = (serverId: string): Promise<PluginUpdateRecord[]> => window.electronAPI.listPluginUpdates(serverId);
+export const rollbackPluginUpdate = (serverId: string, updateId: string): Promise<PluginUpdateRecord[]> => window.electronAPI.rollbackPluginUpdate(serverId, updateId);
+
+// The release jar named most like the installed one ("DPCore-1.3.jar" for "DPCore-1.2.jar"), or the
+// only jar; null when the release has none
+export const findUpdateAsset = (release: GitHubRelease, plugin: InstalledPlugin): GitHubReleaseAsset | null => {
+    const jars = release.assets.filter(asset => asset.name.toLowerCase().endsWith('.jar') && !isChecksumAsset(asset));
+    if (jars.length <= 1) return jars[0] ?? null;
+    const stem = (name: string) => normalizePluginName(name.replace(/\.jar$/i, '').replace(/[-_ ]v?\d[\w.+-]*$/, ''));
+    const wanted = [stem(plugin.file), normalizePluginName(plugin.description?.name ?? '')];
+    return jars.find(asset => wanted.includes(stem(asset.name))) ?? jars[0];
+};
+
+export const updatePlugin = (serverId: string, update: PluginUpdate): Promise<PluginUpdateRecord[]> => {
+    const asset = update.latest && findUpdateAsset(update.latest, update.plugin);
+    if (!update.repo || !update.latest || !asset) return Promise.reject(new Error(`No jar to update ${update.plugin.file} with.`));
+    return window.electronAPI.updatePlugin(serverId, {
+        file: update.plugin.file,
+        url: asset.browser_download_url,
+        fileName: asset.name,
+        checksumUrl: findChecksumAsset(update.latest, asset)?.browser_download_url,
+        repo: update.repo.full_name,
+        tag: update.latest.tag_name,
+    });
+};
@@ -0,0 +1,172 @@
+import { GitHubRepo } from '../types';
+import {
+    fetchRepositories,
+    fetchUserRepositories,
+    fetchRepository,
+    getRepositoriesFetchedAt,
+    getUserRepositoriesFetchedAt,
+    getRepositoryFetchedAt,
+} from './githubService';
+
+// --- Repository sources ---
+// The dashboard merges repositories from a user-managed list of sources (edited in Settings).
+export type RepoSourceType = 'org' | 'user' | 'repo';
+
+export type RepoSource = {
+    id: string;
+    type: RepoSourceType;
+    // Org or user login, or `owner/repo` for a single repository
+    name: string;
+    // Glob patterns (`*`, `?`) matched case-insensitively against the repo name, or against
+    // `owner/repo` when the pattern contains a slash. An empty include list accepts everything.
+    include: string[];
+    exclude: string[];
+    // Repos listed first on the dashboard, in this order
+    pinned: string[];
+    includeArchived: boolean;
+};
+
+export const REPO_SOURCES_CHANGED_EVENT = 'repo-sources-changed';
+
+export const DEFAULT_REPO_SOURCES: RepoSource[] = [
+    {
+        id: 'dp-plugins',
+        type: 'org',
+        name: 'DP-Plugins',
+        include: [],
+        exclude: ['DPP-Releases'],
+        pinned: ['DPP-Core'],
+        includeArchived: false,
+    },
+];
+
+export const getRepoSources = (): RepoSource[] => {
+    try {
+        const raw = localStorage.getItem('repo-sources');
+        if (!raw) return DEFAULT_REPO_SOURCES;
+        return JSON.parse(raw) as RepoSource[];
+    } catch (e) {
+        console.error('Failed to parse repo sources', e);
+        return DEFAULT_REPO_SOURCES;
+    }
+};
+
+export const setRepoSources = (sources: RepoSource[]) => {
+    try {
+        localStorage.setItem('repo-sources', JSON.stringify(sources));
+        window.dispatchEvent(new Event(REPO_SOURCES_CHANGED_EVENT));
+    } catch (e) {
+        console.error('Failed to save repo sources', e);
+    }
+};
+
+export const createRepoSourceId = (): string => `source-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Why a source cannot be saved; the UI turns `code` into a message (`sources.errors.<code>`)
+export type RepoSourceProblem = {
+    code: 'missingName' | 'notRepo' | 'notLogin';
+    name: string;
+};
+
+// Returns the problem with an invalid source, or null when it can be saved
+export const validateRepoSource = (source: RepoSource): RepoSourceProblem | null => {
+    const name = source.name.trim();
+    if (!name) return { code: 'missingName', name };
+    if (source.type === 'repo' && !/^[^/\s]+\/[^/\s]+$/.test(name)) return { code: 'notRepo', name };
+    if (source.type !== 'repo' && name.includes('/')) return { code: 'notLogin', name };
+    return null;
+};
+
+// --- Glob matching ---
+const globToRegExp = (pattern: string): RegExp => {
+    const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+};
+
+const matchesPattern = (repo: GitHubRepo, pattern: string): boolean => {
+    const target = pattern.includes('/') ? repo.full_name : repo.name;
+    return globToRegExp(pattern).test(target);
+};
+
+export const isRepoAccepted = (source: RepoSource, repo: GitHubRepo): boolean => {
+    if (repo.archived && !source.includeArchived) return false;
+    if (source.include.length > 0 && !source.include.some(p => matchesPattern(repo, p))) return false;
+    return !source.exclude.some(p => matchesPattern(repo, p));
+};
+
+// Position of a repo in the merged pin list of all sources, or -1 when it is not pinned
+export const getPinIndex = (sources: RepoSource[], repo: GitHubRepo): number => {
+    const pins = sources.flatMap(source => source.pinned);
+    return pins.findIndex(pin => matchesPattern(repo, pin));
+};
+
+export const compareRepos = (sources: RepoSource[]) => (a: GitHubRepo, b: GitHubRepo): number => {
+    const pinA = getPinIndex(sources, a);
+    const pinB = getPinIndex(sources, b);
+    if (pinA !== -1 || pinB !== -1) {
+        if (pinA === -1) return 1;
+        if (pinB === -1) return -1;
+        if (pinA !== pinB) return pinA - pinB;
+    }
+    return a.name.localeCompare(b.name);
+};
+
+// --- Fetching ---
+export type SourceFailure = { source: RepoSource; error: unknown };
+
+const fetchSource = async (source: RepoSource, onPage: (repos: GitHubRepo[]) => void): Promise<void> => {
+    const name = source.name.trim();
+    switch (source.type) {
+        case 'org':
+            await fetchRepositories(name, onPage);
+            return;
+        case 'user':
+            await fetchUserRepositories(name, onPage);
+            return;
+        case 'repo': {
+            const [owner, repo] = name.split('/');
+            onPage([await fetchRepository(owner, repo)]);
+            return;
+        }
+    }
+};
+
+// Fetches every source in parallel and streams the accepted repos to `onRepos` as pages arrive.
+// A repo reachable through several sources is reported once. Sources that fail are returned
+// rather than thrown, so one bad entry does not take down the whole dashboard; the call only
+// rejects when every source failed.
+export const fetchSourceRepositories = async (sources: RepoSource[], onRepos: (repos: GitHubRepo[]) => void): Promise<SourceFailure[]> => {
+    const seen = new Set<string>();
+    const results = await Promise.allSettled(sources.map(source => fetchSource(source, (page) => {
+        const accepted = page.filter(repo => isRepoAccepted(source, repo) && !seen.has(repo.full_name.toLowerCase()));
+        accepted.forEach(repo => seen.add(repo.full_name.toLowerCase()));
+        onRepos(accepted);
+    })));
+
+    const failures: SourceFailure[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') failures.push({ source: sources[i], error: result.reason });
+    });
+    if (sources.length > 0 && failures.length === sources.length) {
+        throw failures[0].error;
+    }
+    return failures;
+};
+
+// Owners whose repositories can be batched through GraphQL (single-repo sources are fetched per card)
+export const getSummaryOwners = (sources: RepoSource[]): string[] => {
+    const owners = sources.filter(source => source.type !== 'repo').map(source => source.name.trim());
+    return Array.from(new Set(owners));
+};
+
+// Oldest fetch time across all sources, i.e. how old the merged list on screen is
+export const getSourcesFetchedAt = async (sources: RepoSource[]): Promise<number | null> => {
+    const times = (await Promise.all(sources.map(source => {
+        const name = source.name.trim();
+        if (source.type === 'org') return getRepositoriesFetchedAt(name);
+        if (source.type === 'user') return getUserRepositoriesFetchedAt(name);
+        const [owner, repo] = name.split('/');
+        return getRepositoryFetchedAt(owner, repo);
+    }))).filter((t): t is number => t !== null);
+    return times.length ? Math.min(...times) : null;
+};
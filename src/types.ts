@@ -7,6 +7,7 @@ export interface GitHubRepo {
   description: string | null;
   pushed_at: string;
   archived: boolean;
+  default_branch: string;
   owner: {
     login: string;
   };
@@ -28,6 +29,11 @@ export interface GitHubReleaseAsset {
   id: number;
   name: string;
   browser_download_url: string;
+  // Cumulative; GitHub keeps no history of it
+  download_count: number;
+  // Bytes
+  size: number;
+  content_type: string;
 }
 
 export interface GitHubRelease {
@@ -36,13 +42,383 @@ export interface GitHubRelease {
   tag_name: string;
   html_url: string;
   published_at: string;
+  draft: boolean;
+  prerelease: boolean;
+  // Release notes rendered by GitHub; absent from entries cached before notes were requested
+  body_html?: string | null;
   assets: GitHubReleaseAsset[];
 }
 
+// Data a ProjectCard needs, fetched for all repos at once through GraphQL
+export interface RepoSummary {
+  latestCommit: GitHubCommit | null;
+  latestRelease: GitHubRelease | null;
+  hasReadme: boolean;
+  openIssues: number;
+  openPullRequests: number;
+  // Combined check status of the default branch head
+  buildStatus: BuildStatus;
+}
+
+// A commit as listed by the compare API
+export interface GitHubCompareCommit extends GitHubCommit {
+  // The linked account; null when the commit email is not linked to one
+  author: { login: string } | null;
+  parents: Array<{ sha: string }>;
+}
+
+export interface GitHubMergedPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  author: string | null;
+  merged_at: string | null;
+}
+
+// One commit of a branch history, with its diff stats
+export interface GitHubHistoryCommit {
+  sha: string;
+  html_url: string;
+  message: string;
+  // Authored date
+  date: string;
+  author: {
+    name: string;
+    // null when the commit email is not linked to an account
+    login: string | null;
+  };
+  additions: number;
+  deletions: number;
+  // null when GitHub could not count them, e.g. for very large commits
+  changed_files: number | null;
+}
+
+export interface GitHubCommitFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  blob_url: string;
+}
+
+export interface GitHubCommitDetail extends GitHubCommit {
+  stats: { additions: number; deletions: number; total: number };
+  files: GitHubCommitFile[];
+}
+
+// A week of `/stats/commit_activity`
+export interface CommitActivityWeek {
+  // Epoch seconds of the Sunday starting the week
+  week: number;
+  total: number;
+  // Commits per day, Sunday first
+  days: number[];
+}
+
+// Outcome of the latest CI run, reduced to what a badge shows; null when there is nothing to show
+export type BuildStatus = 'success' | 'failure' | 'pending' | 'cancelled' | null;
+
+export interface GitHubWorkflowRun {
+  id: number;
+  // Workflow name
+  name: string;
+  display_title: string;
+  html_url: string;
+  head_branch: string;
+  head_sha: string;
+  event: string;
+  run_number: number;
+  status: string;
+  // null while the run is not completed
+  conclusion: string | null;
+  run_started_at: string;
+  updated_at: string;
+  actor: { login: string } | null;
+}
+
+export interface GitHubWorkflowStep {
+  number: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+}
+
+export interface GitHubWorkflowJob {
+  id: number;
+  name: string;
+  html_url: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string;
+  completed_at: string | null;
+  steps?: GitHubWorkflowStep[];
+}
+
+export interface GitHubArtifact {
+  id: number;
+  name: string;
+  size_in_bytes: number;
+  expired: boolean;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface GitHubLabel {
+  name: string;
+  // Hex colour without the leading '#'
+  color: string;
+}
+
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  // null for deleted (ghost) users
+  author: string | null;
+  labels: GitHubLabel[];
+  assignees: string[];
+  comments: number;
+}
+
+// GraphQL `reviewDecision`; null when the repository does not require reviews
+export type PullRequestReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+
+export interface GitHubPullRequest extends GitHubIssue {
+  draft: boolean;
+  head_ref: string;
+  review_decision: PullRequestReviewDecision;
+}
+
+// github.com, or a GitHub Enterprise Server instance
+export interface GitHubServer {
+  webUrl: string;
+  apiUrl: string;
+  graphqlUrl: string;
+  // `installed_version` of a GHES instance; null for github.com
+  version: string | null;
+}
+
+export interface GitHubAccount {
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  server: GitHubServer;
+}
+
+export interface SavedAccount extends GitHubAccount {
+  id: string;
+  // Name shown in the account switcher
+  label: string;
+  // Set when GitHub rejected the token; the account is kept until it signs in again or is removed
+  needsSignIn: boolean;
+}
+
+export interface AccountsState {
+  accounts: SavedAccount[];
+  activeId: string | null;
+}
+
+export type TokenValidation =
+  // `scopes` is null when GitHub does not report them, as for fine-grained tokens
+  // `validationId` names the token the main process keeps for `addGitHubAccount`
+  | { ok: true; account: GitHubAccount; scopes: string[] | null; validationId: string }
+  | { ok: false; reason: 'invalid' | 'forbidden' | 'rate-limited' | 'network' | 'server' | 'server-url'; message: string };
+
+export interface DeviceFlowPrompt {
+  userCode: string;
+  verificationUri: string;
+  // Seconds until the code expires
+  expiresIn: number;
+}
+
+export type DeviceFlowResult =
+  | { status: 'authorized' | 'expired' | 'denied' | 'cancelled' }
+  | { status: 'error'; message: string };
+
+export interface CacheRecord {
+  data: unknown;
+  meta: Record<string, unknown>;
+}
+
+export interface CacheListing {
+  key: string;
+  meta: Record<string, unknown>;
+  // Bytes on disk
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  size: number;
+  limit: number;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+
+// null when the release publishes no checksum; `unavailable` when its checksum file does not list the
+// download; `error` when the checksum file could not be fetched, which fails the download
+export type ChecksumResult = 'verified' | 'mismatch' | 'unavailable' | 'error' | null;
+
+export interface DownloadRequest {
+  url: string;
+  fileName: string;
+  // Checksum file of the same release, e.g. `plugin.jar.sha256` or `SHA256SUMS`
+  checksumUrl?: string;
+  // `owner/repo` and tag, shown in the history
+  repo?: string;
+  tag?: string;
+}
+
+export interface DownloadEntry {
+  id: string;
+  url: string;
+  fileName: string;
+  checksumUrl: string | null;
+  repo: string | null;
+  tag: string | null;
+  status: DownloadStatus;
+  // Where the file is saved, chosen once the download starts
+  path: string | null;
+  receivedBytes: number;
+  // 0 when the server does not send a length
+  totalBytes: number;
+  checksum: ChecksumResult;
+  sha256: string | null;
+  error: string | null;
+  createdAt: number;
+  finishedAt: number | null;
+}
+
+export interface PluginServer {
+  id: string;
+  // Name of the server folder, shown in the servers tab
+  label: string;
+  // The server's `plugins/` folder
+  directory: string;
+}
+
+// From plugin.yml, or paper-plugin.yml for Paper-only plugins
+export interface PluginDescription {
+  name: string;
+  version: string | null;
+  depend: string[];
+  softdepend: string[];
+  website: string | null;
+  // Oldest server API the plugin is written against, e.g. "1.20"
+  apiVersion: string | null;
+  // Oldest DPP-Core the plugin states it needs (`dpp-core-version`); plugin.yml has no standard way to say so
+  coreVersion: string | null;
+}
+
+export interface InstalledPlugin {
+  // Jar file name inside the plugins folder
+  file: string;
+  // null when the jar could not be read or has no plugin descriptor
+  description: PluginDescription | null;
+  error: string | null;
+}
+
+export interface PluginScan {
+  serverId: string;
+  plugins: InstalledPlugin[];
+  scannedAt: number;
+}
+
+export interface PluginUpdateRequest {
+  // Installed jar to replace, a file name inside the plugins folder
+  file: string;
+  // Release asset to install
+  url: string;
+  fileName: string;
+  checksumUrl?: string;
+  repo: string;
+  tag: string;
+}
+
+export interface PluginBackup {
+  // Jar name inside the plugins folder
+  file: string;
+  path: string;
+}
+
+export interface PluginUpdateRecord {
+  id: string;
+  plugin: string;
+  repo: string;
+  tag: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  // Jar names before and after; a release may name its jar after the version
+  oldFile: string;
+  newFile: string;
+  // Copies of every jar the update replaced or removed, `oldFile` included; what a rollback restores
+  backups: PluginBackup[];
+  // As for downloads: null when the release publishes no checksum, `unavailable` when its checksum
+  // file does not list the jar. A checksum file that cannot be fetched fails the update.
+  checksum: 'verified' | 'unavailable' | null;
+  updatedAt: number;
+  rolledBackAt: number | null;
+}
+
 declare global {
   interface Window {
     electronAPI: {
       setHardwareAcceleration: (enabled: boolean) => Promise<void>;
+      listGitHubAccounts: () => Promise<AccountsState>;
+      // Saves the account and token of the last successful `validateGitHubToken` and makes the account active
+      addGitHubAccount: (validationId: string, label: string) => Promise<AccountsState>;
+      removeGitHubAccount: (id: string) => Promise<AccountsState>;
+      activateGitHubAccount: (id: string) => Promise<AccountsState>;
+      // Marks an account whose token GitHub rejected; adding the same account again clears it
+      requireGitHubSignIn: (id: string) => Promise<AccountsState>;
+      renameGitHubAccount: (id: string, label: string) => Promise<AccountsState>;
+      // Checks `token` against GET /user of github.com or the GHES instance at `serverUrl`,
+      // or the token from the device flow when omitted
+      validateGitHubToken: (token?: string, serverUrl?: string) => Promise<TokenValidation>;
+      isDeviceFlowAvailable: () => Promise<boolean>;
+      startDeviceFlow: () => Promise<DeviceFlowPrompt>;
+      // Resolves once the user approved, denied or let the code expire; on approval the main process holds the token until `validateGitHubToken`
+      pollDeviceFlow: () => Promise<DeviceFlowResult>;
+      cancelDeviceFlow: () => Promise<void>;
+      // On-disk response cache of the main process
+      cacheGet: (key: string) => Promise<CacheRecord | null>;
+      cacheSet: (key: string, data: unknown, meta: Record<string, unknown>) => Promise<void>;
+      cacheList: (prefix: string) => Promise<CacheListing[]>;
+      cachePatchMeta: (prefix: string, patch: Record<string, unknown>) => Promise<void>;
+      cachePatchKeys: (keys: string[], patch: Record<string, unknown>) => Promise<void>;
+      cacheDeletePrefix: (prefix: string) => Promise<void>;
+      cacheDeleteKeys: (keys: string[]) => Promise<void>;
+      cacheStats: () => Promise<CacheStats>;
+      // Release asset downloads run in the main process, which pushes every change to the history
+      listDownloads: () => Promise<DownloadEntry[]>;
+      // Resolves to the id of the queued download
+      startDownload: (request: DownloadRequest) => Promise<string>;
+      pauseDownload: (id: string) => Promise<void>;
+      // Also restarts a failed or cancelled download
+      resumeDownload: (id: string) => Promise<void>;
+      cancelDownload: (id: string) => Promise<void>;
+      removeDownloads: (ids: string[]) => Promise<void>;
+      revealDownload: (id: string) => Promise<boolean>;
+      getDownloadDirectory: () => Promise<string>;
+      openDownloadDirectory: () => Promise<void>;
+      chooseDownloadDirectory: () => Promise<string>;
+      onDownloadsChanged: (listener: (entries: DownloadEntry[]) => void) => () => void;
+      // Server plugin folders are registered through a folder dialog and read by the main process
+      listPluginServers: () => Promise<PluginServer[]>;
+      addPluginServer: () => Promise<PluginServer[]>;
+      removePluginServer: (id: string) => Promise<PluginServer[]>;
+      scanPluginServer: (id: string) => Promise<PluginScan>;
+      // Update history of a server, newest first; updating and rolling back resolve to the new history
+      listPluginUpdates: (serverId: string) => Promise<PluginUpdateRecord[]>;
+      updatePlugin: (serverId: string, request: PluginUpdateRequest) => Promise<PluginUpdateRecord[]>;
+      rollbackPluginUpdate: (serverId: string, updateId: string) => Promise<PluginUpdateRecord[]>;
+      // plugin.yml parsing shared with the folder scanner; rejects a descriptor without a name
+      parsePluginDescriptor: (text: string) => Promise<PluginDescription>;
+      // Downloads a release jar into memory and reads its descriptor; null when it has none
+      describePluginJar: (url: string) => Promise<PluginDescription | null>;
     };
   }
 }
\ No newline at end of file
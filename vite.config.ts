@@ -11,6 +11,12 @@ export default defineConfig({
       {
         // Main-Process entry file of the Electron App.
         entry: 'electron/main.ts',
+        vite: {
+          define: {
+            // OAuth app used for "Sign in with GitHub"; can still be overridden at runtime (see electron/deviceFlow.ts)
+            __GITHUB_OAUTH_CLIENT_ID__: JSON.stringify(process.env.DP_GITHUB_OAUTH_CLIENT_ID ?? ''),
+          },
+        },
       },
       {
         entry: 'electron/preload.ts',